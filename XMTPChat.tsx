@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
 import {
   Button,
   Card,
@@ -15,41 +15,171 @@ import {
   ModalHeader,
   ModalBody,
   ModalFooter,
+  Nav,
+  NavItem,
+  NavLink,
+  Progress,
 } from 'reactstrap';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { useXMTPService, XMTPConversation, XMTPMessage } from './hooks/useXMTPService';
+import {
+  useXMTPService,
+  applyReaction,
+  isXMTPServiceError,
+  looksLikeName,
+  MAX_UNREAD_COUNT,
+  AttachmentStorage,
+  NameResolver,
+  OutboxItem,
+  XMTPConfig,
+  XMTPConsentState,
+  XMTPConversation,
+  XMTPGroupMember,
+  XMTPGroupUpdate,
+  XMTPInstallation,
+  XMTPMessage,
+  XMTPReaction,
+  XMTPServiceError,
+} from './hooks/useXMTPService';
 import './style/XMTPChat.scss';
 
-const XMTPChat: React.FC = () => {
+// Réactions proposées au survol d'un message
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// Nombre maximum de pages chargées pour atteindre le message cité
+const MAX_QUOTE_JUMP_PAGES = 10;
+
+// Explication et action proposée pour une erreur bloquante du client, selon son code
+const getErrorRecovery = (error: XMTPServiceError): { hint: string; retryLabel: string; retryIcon: string } => {
+  switch (error.code) {
+    case 'USER_REJECTED_SIGNATURE':
+      return {
+        hint: 'XMTP needs a signature from your wallet to set up messaging. It is free and does not send a transaction.',
+        retryLabel: 'Sign Again',
+        retryIcon: 'fa-pencil',
+      };
+    case 'NETWORK':
+    case 'TIMEOUT':
+      return {
+        hint: 'The XMTP network could not be reached. Check your connection, then retry.',
+        retryLabel: 'Retry',
+        retryIcon: 'fa-refresh',
+      };
+    case 'RATE_LIMITED':
+      return {
+        hint: 'Too many requests were sent to the XMTP network. Wait a few seconds before retrying.',
+        retryLabel: 'Retry',
+        retryIcon: 'fa-clock-o',
+      };
+    case 'WASM_MEMORY':
+      return {
+        hint: 'The messaging engine lost its memory. Restarting the client keeps your messages, they are stored in this browser.',
+        retryLabel: 'Restart Client',
+        retryIcon: 'fa-power-off',
+      };
+    default:
+      return { hint: '', retryLabel: 'Try Again', retryIcon: 'fa-refresh' };
+  }
+};
+
+// Extensions affichées en aperçu quand le type MIME n'est pas encore connu
+const IMAGE_EXTENSION_PATTERN = /\.(png|jpe?g|gif|webp|bmp|avif)$/i;
+
+interface XMTPChatProps {
+  // Stockage des pièces jointes ; sans lui le bouton trombone est masqué
+  attachmentStorage?: AttachmentStorage;
+  // Résolution des noms (ENS sur mainnet par défaut) ; un stub pour les tests et la chaîne locale
+  nameResolver?: NameResolver;
+  // Réseau XMTP, intervalles de polling, codecs... Ignorés (comme les props ci-dessus) sous un XMTPProvider
+  config?: XMTPConfig;
+}
+
+const XMTPChat: React.FC<XMTPChatProps> = ({ attachmentStorage, nameResolver, config }) => {
   const {
     isReady,
     isInitializing,
+    isSwitchingAccount,
+    signatureRequest, // Signature demandée au wallet, expliquée avant l'ouverture de la popup
+    recovery, // Reconstruction automatique du client après une erreur mémoire WASM
     conversations,
     error,
     address,
     isConnected,
-    isStreaming, // Maintenant isPolling
+    isStreaming, // Stream XMTP actif
+    usePolling, // Repli sur le polling quand le stream est indisponible
     inboxId,
+    outbox,
+    readReceiptsEnabled,
+    canSendAttachments,
+    totalUnreadCount,
+    displayNames,
+    contacts,
     initializeClient,
     loadConversations,
+    setActiveConversation,
     canMessage,
-    sendMessage,
+    resolveName,
+    lookupNames,
+    getContact,
+    saveContact,
+    deleteContact,
+    prepareMessage,
+    publishMessages,
+    sendReaction,
+    sendAttachment,
+    loadAttachment,
+    sendReadReceipt,
+    getLastReadAt,
+    setReadReceiptsEnabled,
+    enqueueMessage,
+    discardQueuedMessage,
     startConversation,
+    updateConsentState,
+    createGroup,
+    addMembers,
+    removeMembers,
+    updateGroupName,
+    updateGroupDescription,
+    listMembers,
+    listInstallations,
+    revokeInstallations,
+    revokeAllOtherInstallations,
     getMessages,
-    streamAllMessages, // Utilise maintenant le polling
-    streamConversations, // Nouvelle fonction pour les conversations
+    getMessage,
+    streamAllMessages, // Stream avec repli automatique sur le polling
+    streamConversations, // Idem pour les nouvelles conversations
     syncAll,
-    startMessagePolling,
-    stopMessagePolling,
-  } = useXMTPService();
+  } = useXMTPService({ attachmentStorage, nameResolver, config });
 
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
   const [messages, setMessages] = useState<XMTPMessage[]>([]);
   const [messageInput, setMessageInput] = useState('');
-  const [isSending, setIsSending] = useState(false);
   const [loadingMessages, setLoadingMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [oldestMessageCursor, setOldestMessageCursor] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
+  // Onglets de la sidebar : conversations acceptées, demandes, bloquées
+  const [conversationTab, setConversationTab] = useState<XMTPConsentState>('allowed');
+  const [isUpdatingConsent, setIsUpdatingConsent] = useState(false);
+  const [consentError, setConsentError] = useState<string | null>(null);
+  const [hoveredMessageId, setHoveredMessageId] = useState<string | null>(null);
+
+  // Réponses citées
+  const [replyingTo, setReplyingTo] = useState<XMTPMessage | null>(null);
+  const [quotedMessages, setQuotedMessages] = useState<Record<string, XMTPMessage | null>>({});
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  // Pièces jointes
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  // URLs objet des images déchiffrées, par id de message
+  const [attachmentUrls, setAttachmentUrls] = useState<Record<string, string>>({});
+
+  // Dernière lecture de la conversation par un autre participant (accusés de lecture)
+  const [lastReadAt, setLastReadAt] = useState<Date | null>(null);
+
   // New conversation modal
   const [showNewConvoModal, setShowNewConvoModal] = useState(false);
   const [newConvoAddress, setNewConvoAddress] = useState('');
@@ -59,15 +189,59 @@ const XMTPChat: React.FC = () => {
     canReceive?: boolean;
     error?: string;
     isChecking?: boolean;
+    // Adresse obtenue quand un nom ENS a été saisi
+    resolvedAddress?: string;
   }>({
     isValid: false,
   });
 
-  // Refs pour le cleanup du polling
-  const messagePollingCleanupRef = useRef<(() => void) | null>(null);
-  const conversationPollingCleanupRef = useRef<(() => void) | null>(null);
+  // Modal de création de groupe
+  const [showNewGroupModal, setShowNewGroupModal] = useState(false);
+  const [newGroupName, setNewGroupName] = useState('');
+  const [newGroupDescription, setNewGroupDescription] = useState('');
+  const [newGroupMembers, setNewGroupMembers] = useState('');
+  const [isCreatingGroup, setIsCreatingGroup] = useState(false);
+  const [newGroupError, setNewGroupError] = useState<string | null>(null);
+
+  // Panneau des membres du groupe
+  const [showMemberPanel, setShowMemberPanel] = useState(false);
+  const [groupMembers, setGroupMembers] = useState<XMTPGroupMember[]>([]);
+  const [loadingMembers, setLoadingMembers] = useState(false);
+  const [memberPanelError, setMemberPanelError] = useState<string | null>(null);
+  const [memberToAdd, setMemberToAdd] = useState('');
+  const [groupNameInput, setGroupNameInput] = useState('');
+  const [groupDescriptionInput, setGroupDescriptionInput] = useState('');
+  const [isUpdatingGroup, setIsUpdatingGroup] = useState(false);
+
+  // Carnet d'adresses (surnoms et notes privés)
+  const [showContactModal, setShowContactModal] = useState(false);
+  const [contactNicknameInput, setContactNicknameInput] = useState('');
+  const [contactNotesInput, setContactNotesInput] = useState('');
+  const [isSavingContact, setIsSavingContact] = useState(false);
+  const [contactError, setContactError] = useState<string | null>(null);
+
+  // Paramètres : installations XMTP du compte (une par navigateur ou profil)
+  const [showSettingsPanel, setShowSettingsPanel] = useState(false);
+  const [installations, setInstallations] = useState<XMTPInstallation[]>([]);
+  const [loadingInstallations, setLoadingInstallations] = useState(false);
+  const [installationsError, setInstallationsError] = useState<string | null>(null);
+  // Révocation en attente de confirmation : une installation ou toutes les autres
+  const [pendingRevocation, setPendingRevocation] = useState<XMTPInstallation | 'all' | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  // Refs pour le cleanup des streams
+  const messageStreamCleanupRef = useRef<(() => void) | null>(null);
+  const conversationStreamCleanupRef = useRef<(() => void) | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLElement>(null);
+  // Position de scroll à restaurer après le chargement d'une page plus ancienne
+  const scrollRestoreRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  // Message à afficher après le chargement des pages qui le contiennent
+  const scrollToMessageRef = useRef<string | null>(null);
   const validationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const loadingAttachmentsRef = useRef<Set<string>>(new Set());
+  const attachmentUrlsRef = useRef<Record<string, string>>({});
 
   // Charger les conversations quand le client est prêt
   useEffect(() => {
@@ -81,77 +255,95 @@ const XMTPChat: React.FC = () => {
 
   // Référence pour la conversation sélectionnée (pour éviter les redémarrages du polling)
   const selectedConversationRef = useRef<string | null>(null);
-  const lastMessageTimestampRef = useRef<number>(0);
 
   // Mettre à jour la référence quand la conversation change
   useEffect(() => {
     selectedConversationRef.current = selectedConversation;
   }, [selectedConversation]);
 
-  // Démarrer le polling des messages en temps réel quand prêt (UNE SEULE FOIS)
+  // Démarrer le stream des messages en temps réel quand prêt (UNE SEULE FOIS)
+  // Ne pas dépendre de isStreaming : le changement de transport relancerait le stream
   useEffect(() => {
-    if (isReady && !isStreaming) {
-      console.log('🚀 Starting real-time message polling...');
+    if (isReady) {
+      console.log('🚀 Starting real-time message stream...');
 
       const initializeMessagePolling = () => {
         try {
           const cleanup = streamAllMessages((newMessage: XMTPMessage) => {
-            console.log('📨 Received new message via polling:', newMessage);
+            console.log('📨 Received new message:', newMessage);
+
+            // Les accusés de lecture ne sont jamais affichés, ils mettent à jour l'état "Read"
+            if (newMessage.contentType === 'read_receipt') {
+              if (newMessage.conversationId === selectedConversationRef.current && !isOwnSender(newMessage.senderAddress)) {
+                setLastReadAt(newMessage.sentAt);
+              }
+              return;
+            }
+
+            // Une réaction met à jour les compteurs du message ciblé au lieu d'ajouter une bulle
+            if (newMessage.reaction) {
+              if (newMessage.conversationId === selectedConversationRef.current) {
+                applyReactionToMessage(newMessage.reaction, newMessage.senderAddress);
+              }
+              return;
+            }
 
             // Si le message est pour la conversation actuellement sélectionnée
             if (selectedConversationRef.current && newMessage.conversationId === selectedConversationRef.current) {
               setMessages(prevMessages => {
-                // Éviter les doublons
+                // Éviter les doublons (un envoi optimiste revient aussi par le stream)
                 const messageExists = prevMessages.some(msg => msg.id === newMessage.id);
                 if (messageExists) {
-                  console.log('Message already exists, skipping duplicate');
-                  return prevMessages;
+                  console.log('Message already exists, updating its delivery state');
+                  return prevMessages.map(msg => (msg.id === newMessage.id ? { ...msg, status: newMessage.status } : msg));
                 }
 
                 console.log('Adding new message to current conversation');
                 return [...prevMessages, newMessage].sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
               });
-            }
 
-            // Recharger les conversations pour mettre à jour le dernier message
-            loadConversations();
+              // Message reçu pendant que la conversation est affichée
+              if (!isOwnSender(newMessage.senderAddress) && isWindowFocused()) {
+                sendReadReceipt(newMessage.conversationId);
+              }
+            }
+            // La liste des conversations est mise à jour par le service
           });
 
-          messagePollingCleanupRef.current = cleanup;
-        } catch (pollingError) {
-          console.error('Failed to start message polling:', pollingError);
+          messageStreamCleanupRef.current = cleanup;
+        } catch (streamError) {
+          console.error('Failed to start message stream:', streamError);
         }
       };
 
       initializeMessagePolling();
     }
 
-    // Cleanup du polling au démontage
+    // Cleanup du stream au démontage
     return () => {
-      if (messagePollingCleanupRef.current) {
-        console.log('🛑 Cleaning up message polling...');
-        messagePollingCleanupRef.current();
-        messagePollingCleanupRef.current = null;
+      if (messageStreamCleanupRef.current) {
+        console.log('🛑 Cleaning up message stream...');
+        messageStreamCleanupRef.current();
+        messageStreamCleanupRef.current = null;
       }
     };
-  }, [isReady, isStreaming, streamAllMessages, loadConversations]); // Retiré selectedConversation des dépendances
+  }, [isReady, streamAllMessages]); // Retiré selectedConversation des dépendances
 
-  // Démarrer le polling des nouvelles conversations
+  // Démarrer le stream des nouvelles conversations
   useEffect(() => {
     if (isReady) {
-      console.log('🚀 Starting conversation polling...');
+      console.log('🚀 Starting conversation stream...');
 
       const initializeConversationPolling = () => {
         try {
           const cleanup = streamConversations((newConversation: XMTPConversation) => {
-            console.log('🆕 New conversation detected via polling:', newConversation);
-            // Les conversations seront rechargées automatiquement
-            loadConversations();
+            // Déjà ajoutée à la liste par le service
+            console.log('🆕 New conversation detected:', newConversation);
           });
 
-          conversationPollingCleanupRef.current = cleanup;
-        } catch (conversationPollingError) {
-          console.error('Failed to start conversation polling:', conversationPollingError);
+          conversationStreamCleanupRef.current = cleanup;
+        } catch (conversationStreamError) {
+          console.error('Failed to start conversation stream:', conversationStreamError);
         }
       };
 
@@ -159,28 +351,143 @@ const XMTPChat: React.FC = () => {
     }
 
     return () => {
-      if (conversationPollingCleanupRef.current) {
-        console.log('🛑 Cleaning up conversation polling...');
-        conversationPollingCleanupRef.current();
-        conversationPollingCleanupRef.current = null;
+      if (conversationStreamCleanupRef.current) {
+        console.log('🛑 Cleaning up conversation stream...');
+        conversationStreamCleanupRef.current();
+        conversationStreamCleanupRef.current = null;
       }
     };
-  }, [isReady, streamConversations, loadConversations]);
+  }, [isReady, streamConversations]);
 
   // Charger les messages quand une conversation est sélectionnée
   useEffect(() => {
+    setReplyingTo(null);
+    setLastReadAt(null);
     if (selectedConversation && isReady) {
       loadMessagesForConversation(selectedConversation);
+      getLastReadAt(selectedConversation).then(readAt => {
+        if (selectedConversationRef.current === selectedConversation) {
+          setLastReadAt(readAt);
+        }
+      });
+      if (isWindowFocused()) {
+        sendReadReceipt(selectedConversation);
+      }
     }
   }, [selectedConversation, isReady]);
 
-  // Auto-scroll vers le bas quand les messages changent
+  // La conversation ouverte est marquée comme lue (compteurs de non-lus)
+  useEffect(() => {
+    if (!isReady) {
+      return;
+    }
+
+    setActiveConversation(selectedConversation);
+    return () => setActiveConversation(null);
+  }, [selectedConversation, isReady, setActiveConversation]);
+
+  // Accuser la lecture quand la fenêtre reprend le focus
   useEffect(() => {
+    const handleFocus = () => {
+      if (selectedConversationRef.current) {
+        sendReadReceipt(selectedConversationRef.current);
+      }
+    };
+
+    window.addEventListener('focus', handleFocus);
+    return () => window.removeEventListener('focus', handleFocus);
+  }, [sendReadReceipt]);
+
+  // Auto-scroll vers le bas quand les messages changent,
+  // sauf après le chargement d'anciens messages où l'on garde la position
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (scrollToMessageRef.current) {
+      document.getElementById(`message-${scrollToMessageRef.current}`)?.scrollIntoView({ block: 'center' });
+      scrollToMessageRef.current = null;
+      scrollRestoreRef.current = null;
+      return;
+    }
+
+    if (scrollRestoreRef.current && container) {
+      const { scrollHeight, scrollTop } = scrollRestoreRef.current;
+      container.scrollTop = container.scrollHeight - scrollHeight + scrollTop;
+      scrollRestoreRef.current = null;
+      return;
+    }
+
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
   }, [messages]);
 
+  // Récupérer les messages cités absents des pages chargées
+  useEffect(() => {
+    const missingIds = [...new Set(messages.map(msg => msg.replyTo).filter((id): id is string => !!id))].filter(
+      id => !messages.some(msg => msg.id === id) && !(id in quotedMessages),
+    );
+    if (missingIds.length === 0) {
+      return;
+    }
+
+    // null en attendant la réponse, pour ne pas relancer la même requête
+    setQuotedMessages(prev => ({ ...prev, ...Object.fromEntries(missingIds.map(id => [id, null])) }));
+    missingIds.forEach(id => {
+      getMessage(id)
+        .then(original => setQuotedMessages(prev => ({ ...prev, [id]: original })))
+        .catch(err => console.warn('Failed to load quoted message:', err));
+    });
+  }, [messages, getMessage]);
+
+  // Noms ENS des expéditeurs (groupes) et des membres affichés
+  useEffect(() => {
+    lookupNames([...messages.map(msg => msg.senderAddress), ...groupMembers.map(member => member.address)]);
+  }, [messages, groupMembers, lookupNames]);
+
+  // Télécharger et déchiffrer les images pour l'aperçu
+  useEffect(() => {
+    messages
+      .filter(msg => msg.attachment && isImageAttachment(msg) && !attachmentUrlsRef.current[msg.id])
+      .filter(msg => !loadingAttachmentsRef.current.has(msg.id))
+      .forEach(msg => {
+        loadingAttachmentsRef.current.add(msg.id);
+        loadAttachment(msg.attachment!)
+          .then(attachment => {
+            const url = URL.createObjectURL(new Blob([attachment.data.slice()], { type: attachment.mimeType }));
+            attachmentUrlsRef.current = { ...attachmentUrlsRef.current, [msg.id]: url };
+            setAttachmentUrls(attachmentUrlsRef.current);
+          })
+          .catch(err => console.warn('Failed to load attachment preview:', err))
+          .finally(() => loadingAttachmentsRef.current.delete(msg.id));
+      });
+  }, [messages, loadAttachment]);
+
+  // Libérer les URLs objet au démontage
+  useEffect(() => {
+    return () => {
+      Object.values(attachmentUrlsRef.current).forEach(url => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  // Changement de compte : la conversation ouverte et ses messages appartiennent à l'ancien compte
+  useEffect(() => {
+    setSelectedConversation(null);
+    setMessages([]);
+    setReplyingTo(null);
+    setQuotedMessages({});
+    setLastReadAt(null);
+    setShowMemberPanel(false);
+    setShowContactModal(false);
+    setShowNewConvoModal(false);
+    setShowNewGroupModal(false);
+    setShowSettingsPanel(false);
+    setPendingRevocation(null);
+
+    Object.values(attachmentUrlsRef.current).forEach(url => URL.revokeObjectURL(url));
+    attachmentUrlsRef.current = {};
+    setAttachmentUrls({});
+  }, [address]);
+
   // Cleanup des timeouts au démontage
   useEffect(() => {
     return () => {
@@ -190,76 +497,419 @@ const XMTPChat: React.FC = () => {
     };
   }, []);
 
+  // Fusionner deux listes de messages sans doublons, triées par date d'envoi
+  const mergeMessages = (current: XMTPMessage[], incoming: XMTPMessage[]): XMTPMessage[] => {
+    const byId = new Map(current.map(msg => [msg.id, msg]));
+    incoming.forEach(msg => {
+      // Garder l'état d'échec local tant que le SDK n'a pas publié le message
+      const existing = byId.get(msg.id);
+      byId.set(msg.id, existing?.status === 'failed' && msg.status === 'sending' ? { ...msg, status: 'failed' } : msg);
+    });
+    return Array.from(byId.values()).sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+  };
+
+  // Charger la page la plus récente. En mode refresh, les pages plus anciennes déjà chargées sont conservées.
   const loadMessagesForConversation = useCallback(
-    async (conversationId: string) => {
-      setLoadingMessages(true);
+    async (conversationId: string, refresh: boolean = false) => {
+      if (!refresh) {
+        setLoadingMessages(true);
+      }
       try {
         console.log('📥 Loading messages for conversation:', conversationId);
-        const conversationMessages = await getMessages(conversationId);
-        console.log(`✅ Loaded ${conversationMessages.length} messages`);
+        const page = await getMessages(conversationId);
+        console.log(`✅ Loaded ${page.messages.length} messages`);
 
-        // Trier les messages par date d'envoi
-        const sortedMessages = conversationMessages.sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+        // Ignorer le résultat si l'utilisateur a changé de conversation entre-temps
+        if (selectedConversationRef.current !== conversationId) {
+          return;
+        }
 
-        setMessages(sortedMessages);
+        if (refresh) {
+          setMessages(prevMessages =>
+            mergeMessages(
+              prevMessages.filter(msg => msg.conversationId === conversationId),
+              page.messages,
+            ),
+          );
+        } else {
+          setMessages(page.messages);
+          setHasMoreMessages(page.hasMore);
+          setOldestMessageCursor(page.oldestCursor);
+        }
       } catch (err) {
         console.error('❌ Failed to load messages:', err);
-        setMessages([]); // Reset en cas d'erreur
+        if (!refresh) {
+          setMessages([]); // Reset en cas d'erreur
+          setHasMoreMessages(false);
+          setOldestMessageCursor(null);
+        }
       } finally {
-        setLoadingMessages(false);
+        if (!refresh) {
+          setLoadingMessages(false);
+        }
       }
     },
     [getMessages],
   );
 
-  // Surveiller les changements dans les conversations pour recharger les messages de la conversation active
-  useEffect(() => {
-    if (!selectedConversation || !conversations.length) {
+  // Charger la page précédente (messages plus anciens)
+  const loadOlderMessages = useCallback(async () => {
+    const conversationId = selectedConversationRef.current;
+    if (!conversationId || !hasMoreMessages || !oldestMessageCursor || loadingOlderMessages) {
       return;
     }
 
-    const currentConversation = conversations.find(c => c.id === selectedConversation);
-    if (!currentConversation?.lastMessage) {
+    setLoadingOlderMessages(true);
+    try {
+      const page = await getMessages(conversationId, { before: oldestMessageCursor });
+      if (selectedConversationRef.current !== conversationId) {
+        return;
+      }
+
+      const container = messagesContainerRef.current;
+      if (container) {
+        scrollRestoreRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+      }
+
+      setMessages(prevMessages => mergeMessages(prevMessages, page.messages));
+      setHasMoreMessages(page.hasMore);
+      setOldestMessageCursor(page.oldestCursor ?? oldestMessageCursor);
+    } catch (err) {
+      console.error('❌ Failed to load older messages:', err);
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  }, [getMessages, hasMoreMessages, oldestMessageCursor, loadingOlderMessages]);
+
+  // Scroll infini vers le haut
+  const handleMessagesScroll = (e: React.UIEvent<HTMLElement>) => {
+    if (e.currentTarget.scrollTop < 80) {
+      loadOlderMessages();
+    }
+  };
+
+  // Mettre à jour l'état d'un message affiché
+  const updateMessageStatus = (messageId: string, status: XMTPMessage['status']) => {
+    setMessages(prevMessages => prevMessages.map(msg => (msg.id === messageId ? { ...msg, status } : msg)));
+  };
+
+  // publishMessages publie tous les messages en attente de la conversation
+  const markConversationPublished = (conversationId: string) => {
+    setMessages(prevMessages =>
+      prevMessages.map(msg =>
+        msg.conversationId === conversationId && !msg.isLocal && msg.status !== 'sent' ? { ...msg, status: 'sent' } : msg,
+      ),
+    );
+  };
+
+  // Hors ligne ou erreur réseau : le message part dans l'outbox au lieu d'échouer
+  const isConnectivityError = (err: unknown) => {
+    return !navigator.onLine || (isXMTPServiceError(err) && (err.code === 'NETWORK' || err.code === 'TIMEOUT'));
+  };
+
+  const queueMessage = async (
+    conversationId: string,
+    content: string,
+    messageId: string,
+    preparedMessageId?: string,
+    replyTo?: string,
+  ) => {
+    try {
+      await enqueueMessage(conversationId, content, preparedMessageId, replyTo);
+      // La bulle locale est remplacée par l'élément de l'outbox
+      if (!preparedMessageId) {
+        setMessages(prevMessages => prevMessages.filter(msg => msg.id !== messageId));
+      }
+    } catch (queueError) {
+      console.error('❌ Failed to queue message:', queueError);
+      updateMessageStatus(messageId, 'failed');
+    }
+  };
+
+  // Envoi optimiste : la bulle locale est remplacée par le message du SDK puis suit son état de livraison
+  const deliverMessage = async (conversationId: string, content: string, localId: string, replyTo?: string) => {
+    let preparedMessage: XMTPMessage;
+    try {
+      preparedMessage = await prepareMessage(conversationId, content, replyTo);
+      setMessages(prevMessages =>
+        prevMessages.some(msg => msg.id === preparedMessage.id)
+          ? prevMessages.filter(msg => msg.id !== localId)
+          : prevMessages.map(msg => (msg.id === localId ? preparedMessage : msg)),
+      );
+    } catch (err) {
+      console.error('❌ Failed to prepare message:', err);
+      if (isConnectivityError(err)) {
+        await queueMessage(conversationId, content, localId, undefined, replyTo);
+      } else {
+        updateMessageStatus(localId, 'failed');
+      }
       return;
     }
 
-    const lastMessageTimestamp = currentConversation.lastMessage.sentAt.getTime();
+    try {
+      await publishMessages(conversationId);
+      console.log('✅ Message sent successfully');
+      markConversationPublished(conversationId);
+    } catch (err) {
+      console.error('❌ Failed to publish message:', err);
+      if (isConnectivityError(err)) {
+        await queueMessage(conversationId, content, preparedMessage.id, preparedMessage.id, replyTo);
+      } else {
+        updateMessageStatus(preparedMessage.id, 'failed');
+      }
+    }
+  };
 
-    // Si c'est un nouveau message pour la conversation active, recharger les messages
-    if (lastMessageTimestamp > lastMessageTimestampRef.current) {
-      console.log('📨 New message detected in active conversation, reloading messages...');
-      lastMessageTimestampRef.current = lastMessageTimestamp;
+  // Représenter un élément de l'outbox comme une bulle en attente
+  const toQueuedMessage = (item: OutboxItem): XMTPMessage => ({
+    id: item.preparedMessageId ?? item.id,
+    content: item.content,
+    contentType: 'text',
+    replyTo: item.replyTo,
+    senderAddress: item.accountAddress,
+    sentAt: new Date(item.createdAt),
+    conversationId: item.conversationId,
+    status: 'queued',
+    isLocal: !item.preparedMessageId,
+  });
 
-      // Recharger les messages de la conversation active
-      loadMessagesForConversation(selectedConversation).catch(err => {
-        console.error('Failed to reload messages for active conversation:', err);
-      });
+  const handleDiscardQueuedMessage = async (item: OutboxItem) => {
+    try {
+      await discardQueuedMessage(item.id);
+    } catch (err) {
+      console.error('❌ Failed to discard queued message:', err);
     }
-  }, [conversations, selectedConversation, loadMessagesForConversation]);
+  };
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!messageInput.trim() || !selectedConversation || isSending) return;
+    if (!messageInput.trim() || !selectedConversation) return;
 
     const messageContent = messageInput.trim();
-    setIsSending(true);
+    const replyTo = replyingTo?.id;
+    const localMessage: XMTPMessage = {
+      id: `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      content: messageContent,
+      contentType: 'text',
+      replyTo,
+      senderAddress: address?.toLowerCase() || inboxId || '',
+      sentAt: new Date(),
+      conversationId: selectedConversation,
+      status: 'sending',
+      isLocal: true,
+    };
+
     setMessageInput(''); // Clear immédiatement pour une meilleure UX
+    setReplyingTo(null);
+    setMessages(prevMessages => [...prevMessages, localMessage]);
+
+    console.log('📤 Sending message:', messageContent);
+    await deliverMessage(selectedConversation, messageContent, localMessage.id, replyTo);
+  };
+
+  const handleRetryMessage = async (message: XMTPMessage) => {
+    updateMessageStatus(message.id, 'sending');
+
+    // Jamais stocké par le SDK : on recommence l'envoi complet
+    if (message.isLocal) {
+      await deliverMessage(message.conversationId, message.content, message.id, message.replyTo);
+      return;
+    }
 
     try {
-      console.log('📤 Sending message:', messageContent);
-      await sendMessage(selectedConversation, messageContent);
-      console.log('✅ Message sent successfully');
+      await publishMessages(message.conversationId);
+      markConversationPublished(message.conversationId);
+    } catch (err) {
+      console.error('❌ Retry failed:', err);
+      if (isConnectivityError(err)) {
+        await queueMessage(message.conversationId, message.content, message.id, message.id, message.replyTo);
+      } else {
+        updateMessageStatus(message.id, 'failed');
+      }
+    }
+  };
+
+  // Seuls les messages jamais stockés peuvent être abandonnés : le SDK republie les autres
+  const handleDiscardMessage = (message: XMTPMessage) => {
+    setMessages(prevMessages => prevMessages.filter(msg => msg.id !== message.id));
+  };
+
+  const isWindowFocused = () => document.visibilityState === 'visible' && document.hasFocus();
+
+  // Expéditeur courant (adresse ou inbox ID si l'adresse n'est pas résolue)
+  const isOwnSender = (senderAddress: string) => {
+    const normalizedSender = senderAddress?.toLowerCase();
+    return normalizedSender === address?.toLowerCase() || normalizedSender === inboxId?.toLowerCase();
+  };
+
+  // Appliquer une réaction aux compteurs du message ciblé
+  const applyReactionToMessage = (reaction: XMTPReaction, senderAddress: string) => {
+    setMessages(prevMessages =>
+      prevMessages.map(msg =>
+        msg.id === reaction.reference
+          ? { ...msg, reactions: applyReaction(msg.reactions, reaction, senderAddress, isOwnSender(senderAddress)) }
+          : msg,
+      ),
+    );
+  };
+
+  // Ajouter ou retirer sa propre réaction (mise à jour optimiste, annulée en cas d'échec)
+  const handleToggleReaction = async (message: XMTPMessage, emoji: string) => {
+    const ownSender = address?.toLowerCase() || inboxId || '';
+    const alreadyReacted = message.reactions?.some(r => r.emoji === emoji && r.reactedByMe) ?? false;
+    const reaction: XMTPReaction = { reference: message.id, emoji, action: alreadyReacted ? 'removed' : 'added' };
+
+    setHoveredMessageId(null);
+    applyReactionToMessage(reaction, ownSender);
+
+    try {
+      await sendReaction(message.conversationId, message.id, emoji, reaction.action);
+    } catch (err) {
+      console.error('❌ Failed to send reaction:', err);
+      applyReactionToMessage({ ...reaction, action: alreadyReacted ? 'added' : 'removed' }, ownSender);
+    }
+  };
+
+  const isImageAttachment = (message: XMTPMessage) => {
+    if (!message.attachment) return false;
+    return message.attachment.mimeType
+      ? message.attachment.mimeType.startsWith('image/')
+      : IMAGE_EXTENSION_PATTERN.test(message.attachment.filename);
+  };
+
+  // Chiffrer, envoyer puis afficher une pièce jointe
+  const handleAttachFile = async (file: File) => {
+    const conversationId = selectedConversationRef.current;
+    if (!conversationId || uploadProgress !== null) return;
+
+    setAttachmentError(null);
+    setUploadProgress(0);
+    try {
+      const attachmentMessage = await sendAttachment(conversationId, file, progress => setUploadProgress(progress));
+      if (selectedConversationRef.current === conversationId) {
+        setMessages(prevMessages => mergeMessages(prevMessages, [attachmentMessage]));
+      }
+    } catch (err) {
+      console.error('❌ Failed to send attachment:', err);
+      setAttachmentError(err instanceof Error ? err.message : 'Failed to send attachment');
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Permettre de renvoyer le même fichier
+    if (file) {
+      handleAttachFile(file);
+    }
+  };
+
+  // Glisser-déposer sur la zone des messages
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canSendAttachments || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!canSendAttachments) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      handleAttachFile(file);
+    }
+  };
+
+  // Déchiffrer un fichier puis déclencher son téléchargement
+  const handleDownloadAttachment = async (message: XMTPMessage) => {
+    if (!message.attachment) return;
+
+    try {
+      const attachment = await loadAttachment(message.attachment);
+      const url = URL.createObjectURL(new Blob([attachment.data.slice()], { type: attachment.mimeType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.filename;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error('❌ Failed to download attachment:', err);
+      setAttachmentError(err instanceof Error ? err.message : 'Failed to download attachment');
+    }
+  };
+
+  // Accepter, bloquer ou débloquer une conversation ; elle suit son nouvel onglet
+  const handleUpdateConsent = async (conversationId: string, consentState: XMTPConsentState) => {
+    setIsUpdatingConsent(true);
+    setConsentError(null);
+    try {
+      await updateConsentState(conversationId, consentState);
+      setConversationTab(consentState);
+    } catch (err) {
+      console.error('❌ Failed to update consent:', err);
+      setConsentError(err instanceof Error ? err.message : 'Failed to update conversation');
+    } finally {
+      setIsUpdatingConsent(false);
+    }
+  };
+
+  // Aller au message cité, en chargeant les pages plus anciennes si nécessaire
+  const jumpToMessage = async (messageId: string) => {
+    const conversationId = selectedConversationRef.current;
+    if (!conversationId) return;
+
+    const highlight = () => {
+      setHighlightedMessageId(messageId);
+      setTimeout(() => setHighlightedMessageId(current => (current === messageId ? null : current)), 2000);
+    };
+
+    if (messages.some(msg => msg.id === messageId)) {
+      document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      highlight();
+      return;
+    }
+
+    if (!hasMoreMessages || !oldestMessageCursor || loadingOlderMessages) {
+      return;
+    }
+
+    setLoadingOlderMessages(true);
+    try {
+      const olderMessages: XMTPMessage[] = [];
+      let cursor = oldestMessageCursor;
+      let hasMore: boolean = hasMoreMessages;
+      for (let pageCount = 0; pageCount < MAX_QUOTE_JUMP_PAGES && hasMore; pageCount++) {
+        const page = await getMessages(conversationId, { before: cursor });
+        olderMessages.push(...page.messages);
+        hasMore = page.hasMore;
+        cursor = page.oldestCursor ?? cursor;
+        if (page.messages.some(msg => msg.id === messageId)) break;
+      }
 
-      // Recharger les messages après un court délai pour laisser le temps au polling
-      setTimeout(() => {
-        loadMessagesForConversation(selectedConversation);
-      }, 1000);
+      if (selectedConversationRef.current !== conversationId) {
+        return;
+      }
+
+      const found = olderMessages.some(msg => msg.id === messageId);
+      if (found) {
+        scrollToMessageRef.current = messageId;
+      } else {
+        const container = messagesContainerRef.current;
+        if (container) {
+          scrollRestoreRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+        }
+      }
+
+      setMessages(prevMessages => mergeMessages(prevMessages, olderMessages));
+      setHasMoreMessages(hasMore);
+      setOldestMessageCursor(cursor);
+      if (found) highlight();
     } catch (err) {
-      console.error('❌ Failed to send message:', err);
-      // Restaurer le message en cas d'erreur
-      setMessageInput(messageContent);
+      console.error('❌ Failed to load the quoted message:', err);
     } finally {
-      setIsSending(false);
+      setLoadingOlderMessages(false);
     }
   };
 
@@ -271,6 +921,27 @@ const XMTPChat: React.FC = () => {
         return;
       }
 
+      // Résoudre d'abord les surnoms du carnet d'adresses, puis les noms ENS (alice.eth)
+      let resolvedAddress: string | undefined;
+      const contact = contacts.find(
+        candidate => candidate.nickname.toLowerCase() === addressToValidate.trim().toLowerCase() && candidate.addresses.length > 0,
+      );
+      if (contact) {
+        resolvedAddress = contact.addresses[0];
+        addressToValidate = resolvedAddress;
+      } else if (looksLikeName(addressToValidate)) {
+        setAddressValidation({ isValid: true, isChecking: true });
+        resolvedAddress = (await resolveName(addressToValidate)) ?? undefined;
+        if (!resolvedAddress) {
+          setAddressValidation({
+            isValid: false,
+            error: `Could not resolve ${addressToValidate.trim()} to an address`,
+          });
+          return;
+        }
+        addressToValidate = resolvedAddress;
+      }
+
       // Validation basique du format Ethereum
       const isValidFormat = /^0x[a-fA-F0-9]{40}$/.test(addressToValidate.trim());
       if (!isValidFormat) {
@@ -304,6 +975,7 @@ const XMTPChat: React.FC = () => {
           canReceive,
           error: canReceive ? undefined : 'This address is not registered with XMTP and cannot receive messages',
           isChecking: false,
+          resolvedAddress,
         });
       } catch (err) {
         console.error('❌ Failed to check address compatibility:', err);
@@ -314,7 +986,7 @@ const XMTPChat: React.FC = () => {
         });
       }
     },
-    [canMessage, address],
+    [canMessage, resolveName, contacts, address],
   );
 
   // Gérer le changement d'adresse avec debouncing
@@ -344,29 +1016,262 @@ const XMTPChat: React.FC = () => {
 
     setIsStartingConvo(true);
     try {
-      console.log('🆕 Starting new conversation with:', newConvoAddress.trim());
-      const conversationId = await startConversation(newConvoAddress.trim());
+      const recipientAddress = addressValidation.resolvedAddress ?? newConvoAddress.trim();
+      console.log('🆕 Starting new conversation with:', recipientAddress);
+      const conversationId = await startConversation(recipientAddress);
       console.log('✅ New conversation started:', conversationId);
 
       // Sélectionner la nouvelle conversation
       setSelectedConversation(conversationId);
+      setConversationTab('allowed');
 
       // Fermer le modal et reset
       setShowNewConvoModal(false);
       setNewConvoAddress('');
       setAddressValidation({ isValid: false });
-
-      // Recharger les conversations
-      setTimeout(() => {
-        loadConversations();
-      }, 1000);
     } catch (err) {
       console.error('❌ Failed to start conversation:', err);
+      setAddressValidation(prev => ({
+        ...prev,
+        canReceive: isXMTPServiceError(err) && err.code === 'NOT_REGISTERED' ? false : prev.canReceive,
+        error: err instanceof Error ? err.message : 'Failed to start conversation',
+      }));
     } finally {
       setIsStartingConvo(false);
     }
   };
 
+  // Découper la saisie des membres (virgules, espaces ou retours à la ligne)
+  const parseAddressList = (value: string): string[] => {
+    return value
+      .split(/[\s,;]+/)
+      .map(addr => addr.trim())
+      .filter(Boolean);
+  };
+
+  const resetNewGroupForm = () => {
+    setNewGroupName('');
+    setNewGroupDescription('');
+    setNewGroupMembers('');
+    setNewGroupError(null);
+  };
+
+  const handleCreateGroup = async () => {
+    if (isCreatingGroup) return;
+
+    const memberAddresses = parseAddressList(newGroupMembers);
+    if (memberAddresses.length === 0) {
+      setNewGroupError('Add at least one member address');
+      return;
+    }
+
+    const invalidAddress = memberAddresses.find(addr => !/^0x[a-fA-F0-9]{40}$/.test(addr));
+    if (invalidAddress) {
+      setNewGroupError(`Invalid Ethereum address: ${invalidAddress}`);
+      return;
+    }
+
+    setIsCreatingGroup(true);
+    setNewGroupError(null);
+    try {
+      console.log('👥 Creating group with:', memberAddresses);
+      const conversationId = await createGroup(memberAddresses, {
+        name: newGroupName,
+        description: newGroupDescription,
+      });
+      console.log('✅ Group created:', conversationId);
+
+      setSelectedConversation(conversationId);
+      setConversationTab('allowed');
+      setShowNewGroupModal(false);
+      resetNewGroupForm();
+    } catch (err) {
+      console.error('❌ Failed to create group:', err);
+      setNewGroupError(err instanceof Error ? err.message : 'Failed to create group');
+    } finally {
+      setIsCreatingGroup(false);
+    }
+  };
+
+  // Charger les membres du groupe sélectionné
+  const refreshGroupMembers = useCallback(
+    async (conversationId: string) => {
+      setLoadingMembers(true);
+      setMemberPanelError(null);
+      try {
+        setGroupMembers(await listMembers(conversationId));
+      } catch (err) {
+        console.error('❌ Failed to load group members:', err);
+        setMemberPanelError(err instanceof Error ? err.message : 'Failed to load members');
+      } finally {
+        setLoadingMembers(false);
+      }
+    },
+    [listMembers],
+  );
+
+  const openMemberPanel = (conversation: XMTPConversation) => {
+    setGroupNameInput(conversation.name || '');
+    setGroupDescriptionInput(conversation.description || '');
+    setMemberToAdd('');
+    setShowMemberPanel(true);
+    refreshGroupMembers(conversation.id);
+  };
+
+  const handleAddMember = async () => {
+    if (!selectedConversation || isUpdatingGroup) return;
+
+    const memberAddresses = parseAddressList(memberToAdd);
+    const invalidAddress = memberAddresses.find(addr => !/^0x[a-fA-F0-9]{40}$/.test(addr));
+    if (memberAddresses.length === 0 || invalidAddress) {
+      setMemberPanelError(invalidAddress ? `Invalid Ethereum address: ${invalidAddress}` : 'Enter an address to add');
+      return;
+    }
+
+    setIsUpdatingGroup(true);
+    setMemberPanelError(null);
+    try {
+      await addMembers(selectedConversation, memberAddresses);
+      setMemberToAdd('');
+      await refreshGroupMembers(selectedConversation);
+    } catch (err) {
+      console.error('❌ Failed to add member:', err);
+      setMemberPanelError(err instanceof Error ? err.message : 'Failed to add member');
+    } finally {
+      setIsUpdatingGroup(false);
+    }
+  };
+
+  const handleRemoveMember = async (member: XMTPGroupMember) => {
+    if (!selectedConversation || isUpdatingGroup) return;
+
+    setIsUpdatingGroup(true);
+    setMemberPanelError(null);
+    try {
+      await removeMembers(selectedConversation, [member.inboxId]);
+      await refreshGroupMembers(selectedConversation);
+    } catch (err) {
+      console.error('❌ Failed to remove member:', err);
+      setMemberPanelError(err instanceof Error ? err.message : 'Failed to remove member');
+    } finally {
+      setIsUpdatingGroup(false);
+    }
+  };
+
+  const handleSaveGroupDetails = async (conversation: XMTPConversation) => {
+    if (isUpdatingGroup) return;
+
+    setIsUpdatingGroup(true);
+    setMemberPanelError(null);
+    try {
+      if (groupNameInput.trim() !== (conversation.name || '')) {
+        await updateGroupName(conversation.id, groupNameInput);
+      }
+      if (groupDescriptionInput.trim() !== (conversation.description || '')) {
+        await updateGroupDescription(conversation.id, groupDescriptionInput);
+      }
+    } catch (err) {
+      console.error('❌ Failed to update group:', err);
+      setMemberPanelError(err instanceof Error ? err.message : 'Failed to update group');
+    } finally {
+      setIsUpdatingGroup(false);
+    }
+  };
+
+  const refreshInstallations = useCallback(async () => {
+    setLoadingInstallations(true);
+    setInstallationsError(null);
+    try {
+      setInstallations(await listInstallations());
+    } catch (err) {
+      console.error('❌ Failed to load installations:', err);
+      setInstallationsError(err instanceof Error ? err.message : 'Failed to load installations');
+    } finally {
+      setLoadingInstallations(false);
+    }
+  }, [listInstallations]);
+
+  const openSettingsPanel = () => {
+    setPendingRevocation(null);
+    setShowSettingsPanel(true);
+    refreshInstallations();
+  };
+
+  // La signature demandée par le wallet vaut confirmation de la révocation
+  const handleConfirmRevocation = async () => {
+    if (!pendingRevocation || isRevoking) return;
+
+    setIsRevoking(true);
+    setInstallationsError(null);
+    try {
+      if (pendingRevocation === 'all') {
+        await revokeAllOtherInstallations();
+      } else {
+        await revokeInstallations([pendingRevocation.id]);
+      }
+      setPendingRevocation(null);
+      await refreshInstallations();
+    } catch (err) {
+      console.error('❌ Failed to revoke installations:', err);
+      // Signature refusée : la confirmation reste affichée pour pouvoir signer à nouveau
+      setInstallationsError(
+        isXMTPServiceError(err) && err.code === 'USER_REJECTED_SIGNATURE'
+          ? 'The revocation was not signed, no installation was revoked.'
+          : err instanceof Error
+            ? err.message
+            : 'Failed to revoke installations',
+      );
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const openContactModal = (conversation: XMTPConversation) => {
+    const contact = getContact(conversation.peerInboxId || conversation.peerAddress);
+    setContactNicknameInput(contact?.nickname || '');
+    setContactNotesInput(contact?.notes || '');
+    setContactError(null);
+    setShowContactModal(true);
+  };
+
+  const handleSaveContact = async (conversation: XMTPConversation) => {
+    if (!conversation.peerInboxId || isSavingContact) return;
+
+    setIsSavingContact(true);
+    setContactError(null);
+    try {
+      await saveContact({
+        inboxId: conversation.peerInboxId,
+        // peerAddress vaut l'inbox ID quand l'adresse n'a pas pu être résolue
+        addresses: /^0x[a-fA-F0-9]{40}$/.test(conversation.peerAddress) ? [conversation.peerAddress] : [],
+        nickname: contactNicknameInput,
+        notes: contactNotesInput,
+      });
+      setShowContactModal(false);
+    } catch (err) {
+      console.error('❌ Failed to save contact:', err);
+      setContactError(err instanceof Error ? err.message : 'Failed to save contact');
+    } finally {
+      setIsSavingContact(false);
+    }
+  };
+
+  const handleDeleteContact = async (conversation: XMTPConversation) => {
+    if (!conversation.peerInboxId || isSavingContact) return;
+
+    setIsSavingContact(true);
+    setContactError(null);
+    try {
+      await deleteContact(conversation.peerInboxId);
+      setShowContactModal(false);
+    } catch (err) {
+      console.error('❌ Failed to delete contact:', err);
+      setContactError(err instanceof Error ? err.message : 'Failed to delete contact');
+    } finally {
+      setIsSavingContact(false);
+    }
+  };
+
   const handleRefresh = async () => {
     if (isRefreshing) return;
 
@@ -375,7 +1280,7 @@ const XMTPChat: React.FC = () => {
       await Promise.all([
         syncAll(),
         loadConversations(),
-        selectedConversation ? loadMessagesForConversation(selectedConversation) : Promise.resolve(),
+        selectedConversation ? loadMessagesForConversation(selectedConversation, true) : Promise.resolve(),
       ]);
     } catch (err) {
       console.error('❌ Failed to refresh:', err);
@@ -410,10 +1315,67 @@ const XMTPChat: React.FC = () => {
     return String(content || '');
   };
 
-  // Utilitaires de formatage
+  // Utilitaires de formatage (surnom du carnet d'adresses, puis nom ENS)
   const formatAddress = (addr: string) => {
     if (!addr) return '';
-    return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+    return getContact(addr)?.nickname ?? displayNames[addr.toLowerCase()] ?? `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+  };
+
+  const formatUnreadCount = (count: number) => (count > MAX_UNREAD_COUNT ? `${MAX_UNREAD_COUNT}+` : String(count));
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  // Extrait court d'un message cité
+  const formatQuoteSnippet = (message: XMTPMessage) => {
+    const content = sanitizeMessageContent(message.content);
+    return content.length > 80 ? `${content.substring(0, 80)}...` : content;
+  };
+
+  // Décrire un événement de groupe (ajout/retrait de membres, métadonnées)
+  const describeGroupUpdate = (update: XMTPGroupUpdate): string[] => {
+    const actor = formatAddress(update.initiatedBy);
+    const lines: string[] = [];
+
+    if (update.addedMembers.length > 0) {
+      lines.push(`${actor} added ${update.addedMembers.map(formatAddress).join(', ')}`);
+    }
+
+    if (update.removedMembers.length > 0) {
+      const leftByThemselves = update.removedMembers.length === 1 && update.removedMembers[0] === update.initiatedBy;
+      lines.push(leftByThemselves ? `${actor} left the group` : `${actor} removed ${update.removedMembers.map(formatAddress).join(', ')}`);
+    }
+
+    update.metadataChanges.forEach(change => {
+      switch (change.field) {
+        case 'group_name':
+          lines.push(change.newValue ? `Group renamed to "${change.newValue}"` : `${actor} removed the group name`);
+          break;
+        case 'description':
+          lines.push(change.newValue ? `${actor} changed the description to "${change.newValue}"` : `${actor} removed the description`);
+          break;
+        case 'group_image_url_square':
+          lines.push(`${actor} changed the group image`);
+          break;
+        default:
+          lines.push(`${actor} updated ${change.field.replace(/_/g, ' ')}`);
+      }
+    });
+
+    return lines.length > 0 ? lines : [`${actor} updated the group`];
+  };
+
+  // Libellé d'une conversation : nom du groupe ou adresse du pair
+  const getConversationLabel = (conversation: XMTPConversation) => {
+    if (conversation.kind === 'group') {
+      return conversation.name || 'Group Chat';
+    }
+    // Le contact est indexé par inbox ID, y compris quand l'adresse n'est pas résolue
+    const contact = conversation.peerInboxId ? getContact(conversation.peerInboxId) : null;
+    return contact?.nickname ?? formatAddress(conversation.peerAddress);
   };
 
   const formatTime = (date: Date) => {
@@ -454,6 +1416,62 @@ const XMTPChat: React.FC = () => {
     );
   }
 
+  // Signature demandée pendant l'initialisation, affichée avant la popup du wallet (les révocations sont expliquées dans les paramètres)
+  if (signatureRequest === 'create_identity' || signatureRequest === 'authorize_installation') {
+    const isNewIdentity = signatureRequest === 'create_identity';
+    return (
+      <Card className="xmtp-chat">
+        <CardBody className="text-center">
+          <i className={`fa ${isNewIdentity ? 'fa-id-card' : 'fa-key'} fa-2x text-primary mb-3`} />
+          <h5>{isNewIdentity ? 'Create your XMTP identity' : 'Authorize this browser'}</h5>
+          <p className="text-muted">
+            {isNewIdentity
+              ? `${formatAddress(address || '')} has never used XMTP. Signing creates its messaging identity on the network.`
+              : `${formatAddress(address || '')} already has an XMTP inbox. Signing adds this browser as a new installation so it can read and send your messages.`}
+          </p>
+          <small className="text-muted">
+            Your wallet will ask you to sign. It is free and does not send a transaction.
+          </small>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  // Changement de compte dans le wallet
+  if (isSwitchingAccount) {
+    return (
+      <Card className="xmtp-chat">
+        <CardBody className="text-center">
+          <Spinner color="primary" className="mb-3" />
+          <h5>Switching Account</h5>
+          <p className="text-muted">Closing the previous account and loading messages for {formatAddress(address || '')}...</p>
+          <small className="text-muted">Your wallet may ask you to sign if this account has not used XMTP here before.</small>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  // Client en cours de reconstruction : le service relance tout seul, le rechargement reste le dernier recours
+  if (recovery && !isReady) {
+    return (
+      <Card className="xmtp-chat">
+        <CardBody className="text-center">
+          <Spinner color="warning" className="mb-3" />
+          <h5>Restoring Messaging</h5>
+          <p className="text-muted">
+            {recovery.status === 'rebuilding'
+              ? 'Rebuilding the XMTP client from the data stored in this browser...'
+              : 'The XMTP client hit a memory error. It will be rebuilt in a few seconds.'}
+          </p>
+          <Progress value={recovery.attempt} max={recovery.maxAttempts} color="warning" className="mb-2" />
+          <small className="text-muted">
+            Attempt {recovery.attempt} of {recovery.maxAttempts}. Your messages are kept, no signature is needed.
+          </small>
+        </CardBody>
+      </Card>
+    );
+  }
+
   // Initialisation en cours
   if (isInitializing) {
     return (
@@ -468,18 +1486,20 @@ const XMTPChat: React.FC = () => {
     );
   }
 
-  // État d'erreur
+  // État d'erreur : actions de récupération selon le code de l'erreur
   if (error) {
+    const errorRecovery = getErrorRecovery(error);
     return (
       <Card className="xmtp-chat">
         <CardBody>
-          <Alert color="danger">
-            <strong>XMTP Error:</strong> {error}
+          <Alert color={error.retryable ? 'warning' : 'danger'}>
+            <strong>XMTP Error:</strong> {error.message}
+            {errorRecovery.hint && <div className="small mt-1">{errorRecovery.hint}</div>}
           </Alert>
           <div className="d-flex gap-2">
             <Button color="primary" onClick={initializeClient}>
-              <i className="fa fa-refresh me-2"></i>
-              Try Again
+              <i className={`fa ${errorRecovery.retryIcon} me-2`}></i>
+              {errorRecovery.retryLabel}
             </Button>
             <Button color="outline-secondary" onClick={() => window.location.reload()}>
               <i className="fa fa-redo me-2"></i>
@@ -509,8 +1529,29 @@ const XMTPChat: React.FC = () => {
     );
   }
 
+  // Messages affichés : historique + messages en attente dans l'outbox
+  const queuedMessages = outbox.filter(item => item.conversationId === selectedConversation).map(toQueuedMessage);
+  const visibleMessages = queuedMessages.length > 0 ? mergeMessages(messages, queuedMessages) : messages;
+
+  // Conversations de l'onglet courant
+  const tabConversations = conversations.filter(convo => convo.consentState === conversationTab);
+  const requestCount = conversations.filter(convo => convo.consentState === 'unknown').length;
+  const selectedConsentState = conversations.find(c => c.id === selectedConversation)?.consentState ?? 'allowed';
+
+  // Seul le dernier message publié affiche "Read" ou "Delivered"
+  const latestOutgoingMessage = [...visibleMessages]
+    .reverse()
+    .find(msg => msg.contentType !== 'group_updated' && msg.status === 'sent' && isOwnSender(msg.senderAddress));
+  const isLatestOutgoingRead = !!latestOutgoingMessage && !!lastReadAt && lastReadAt >= latestOutgoingMessage.sentAt;
+
   return (
     <div className="xmtp-chat-layout">
+      {recovery && (
+        <Alert color="warning" className="mb-2 py-2">
+          <Spinner size="sm" className="me-2" />
+          The XMTP client hit a memory error and will restart in a few seconds (attempt {recovery.attempt} of {recovery.maxAttempts}).
+        </Alert>
+      )}
       <Row className="h-100">
         {/* Sidebar des conversations */}
         <Col md="4" className="conversations-sidebar">
@@ -520,13 +1561,40 @@ const XMTPChat: React.FC = () => {
                 <h6 className="mb-0">
                   <i className="fa fa-comments me-2"></i>
                   Conversations
+                  {totalUnreadCount > 0 && (
+                    <Badge color="primary" pill className="ms-2" title="Unread messages">
+                      {formatUnreadCount(totalUnreadCount)}
+                    </Badge>
+                  )}
                 </h6>
                 <small className="text-muted">
-                  {isStreaming && <i className="fa fa-circle text-success me-1"></i>}
+                  {isStreaming && <i className="fa fa-circle text-success me-1" title="Live stream connected"></i>}
+                  {usePolling && <i className="fa fa-circle text-warning me-1" title="Stream unavailable, polling for updates"></i>}
                   {formatAddress(address || '')}
+                  {outbox.length > 0 && (
+                    <Badge color="warning" className="ms-1" title="Messages waiting for a connection">
+                      {outbox.length} queued
+                    </Badge>
+                  )}
                 </small>
               </div>
               <div>
+                <Button
+                  color="outline-secondary"
+                  size="sm"
+                  onClick={() => setReadReceiptsEnabled(!readReceiptsEnabled)}
+                  className="me-2"
+                  title={
+                    readReceiptsEnabled
+                      ? 'Read receipts on: others can see when you read their messages'
+                      : 'Read receipts off: others cannot see when you read their messages'
+                  }
+                >
+                  <i className={`fa ${readReceiptsEnabled ? 'fa-eye' : 'fa-eye-slash'}`}></i>
+                </Button>
+                <Button color="outline-secondary" size="sm" onClick={openSettingsPanel} className="me-2" title="Settings and installations">
+                  <i className="fa fa-cog"></i>
+                </Button>
                 <Button
                   color="outline-secondary"
                   size="sm"
@@ -538,34 +1606,77 @@ const XMTPChat: React.FC = () => {
                   <i className={`fa fa-refresh ${isRefreshing ? 'fa-spin' : ''} me-1`}></i>
                   {isRefreshing ? 'Refreshing...' : 'Refresh'}
                 </Button>
-                <Button color="primary" size="sm" onClick={() => setShowNewConvoModal(true)} title="Start new conversation">
+                <Button color="primary" size="sm" onClick={() => setShowNewConvoModal(true)} title="Start new conversation" className="me-2">
                   <i className="fa fa-plus me-1"></i>
                   New Chat
                 </Button>
+                <Button color="outline-primary" size="sm" onClick={() => setShowNewGroupModal(true)} title="Create a group">
+                  <i className="fa fa-users me-1"></i>
+                  New Group
+                </Button>
               </div>
             </CardHeader>
             <CardBody className="p-0">
-              {conversations.length === 0 ? (
-                <div className="text-center p-4">
-                  <i className="fa fa-comment-slash fa-2x text-muted mb-2"></i>
-                  <p className="text-muted mb-3">No conversations yet</p>
-                  <Button color="outline-primary" size="sm" onClick={() => setShowNewConvoModal(true)}>
-                    <i className="fa fa-plus me-2"></i>
-                    Start First Conversation
-                  </Button>
-                </div>
+              <Nav tabs className="px-2 pt-2">
+                <NavItem>
+                  <NavLink role="button" active={conversationTab === 'allowed'} onClick={() => setConversationTab('allowed')}>
+                    Chats
+                  </NavLink>
+                </NavItem>
+                <NavItem>
+                  <NavLink role="button" active={conversationTab === 'unknown'} onClick={() => setConversationTab('unknown')}>
+                    Requests
+                    {requestCount > 0 && (
+                      <Badge color="warning" pill className="ms-1">
+                        {requestCount}
+                      </Badge>
+                    )}
+                  </NavLink>
+                </NavItem>
+                <NavItem>
+                  <NavLink role="button" active={conversationTab === 'denied'} onClick={() => setConversationTab('denied')}>
+                    Blocked
+                  </NavLink>
+                </NavItem>
+              </Nav>
+              {tabConversations.length === 0 ? (
+                conversationTab === 'allowed' ? (
+                  <div className="text-center p-4">
+                    <i className="fa fa-comment-slash fa-2x text-muted mb-2"></i>
+                    <p className="text-muted mb-3">No conversations yet</p>
+                    <Button color="outline-primary" size="sm" onClick={() => setShowNewConvoModal(true)}>
+                      <i className="fa fa-plus me-2"></i>
+                      Start First Conversation
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="text-center p-4">
+                    <i className={`fa ${conversationTab === 'unknown' ? 'fa-inbox' : 'fa-ban'} fa-2x text-muted mb-2`}></i>
+                    <p className="text-muted mb-0">{conversationTab === 'unknown' ? 'No message requests' : 'No blocked conversations'}</p>
+                  </div>
+                )
               ) : (
                 <div className="conversation-list">
-                  {conversations.map(convo => (
+                  {tabConversations.map(convo => (
                     <div
                       key={convo.id}
-                      className={`conversation-item ${selectedConversation === convo.id ? 'active' : ''}`}
+                      className={`conversation-item ${selectedConversation === convo.id ? 'active' : ''} ${
+                        convo.unreadCount > 0 ? 'fw-bold' : ''
+                      }`}
                       onClick={() => setSelectedConversation(convo.id)}
                     >
                       <div className="conversation-header">
-                        <strong>{formatAddress(convo.peerAddress)}</strong>
+                        <strong>
+                          {convo.kind === 'group' && <i className="fa fa-users me-1 text-muted"></i>}
+                          {getConversationLabel(convo)}
+                        </strong>
                         <small className="text-muted">
                           {convo.lastMessage ? formatDate(convo.lastMessage.sentAt) : formatDate(convo.createdAt)}
+                          {convo.unreadCount > 0 && (
+                            <Badge color="primary" pill className="ms-2">
+                              {formatUnreadCount(convo.unreadCount)}
+                            </Badge>
+                          )}
                         </small>
                       </div>
                       {convo.lastMessage && (
@@ -579,11 +1690,14 @@ const XMTPChat: React.FC = () => {
                               const isMessageSent = normalizedSender === normalizedUserAddress || normalizedSender === normalizedInboxId;
 
                               // Nettoyer le contenu du message pour l'aperçu
-                              const messageContent = sanitizeMessageContent(convo.lastMessage.content);
+                              const messageContent = convo.lastMessage.groupUpdate
+                                ? describeGroupUpdate(convo.lastMessage.groupUpdate).join(' · ')
+                                : sanitizeMessageContent(convo.lastMessage.content);
 
                               return (
                                 <>
                                   {isMessageSent && <i className="fa fa-reply me-1 text-primary"></i>}
+                                  {convo.lastMessage.contentType === 'attachment' && <i className="fa fa-paperclip me-1"></i>}
                                   {messageContent.substring(0, 50)}
                                   {messageContent.length > 50 ? '...' : ''}
                                 </>
@@ -602,17 +1716,71 @@ const XMTPChat: React.FC = () => {
 
         {/* Zone des messages */}
         <Col md="8" className="messages-area">
-          <Card className="h-100">
+          <Card
+            className="h-100 position-relative"
+            onDragOver={selectedConversation ? handleDragOver : undefined}
+            onDragLeave={e => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false);
+            }}
+            onDrop={selectedConversation ? handleDrop : undefined}
+          >
+            {isDraggingFile && selectedConversation && (
+              <div className="position-absolute top-0 start-0 w-100 h-100 d-flex align-items-center justify-content-center bg-light bg-opacity-75">
+                <h5 className="text-primary">
+                  <i className="fa fa-paperclip me-2"></i>
+                  Drop file to send
+                </h5>
+              </div>
+            )}
             {selectedConversation ? (
               <>
                 <CardHeader className="d-flex justify-content-between align-items-center">
-                  <h6 className="mb-0">
-                    <i className="fa fa-user me-2"></i>
-                    {(() => {
-                      const conversation = conversations.find(c => c.id === selectedConversation);
-                      return conversation ? formatAddress(conversation.peerAddress) : 'Unknown';
-                    })()}
-                  </h6>
+                  {(() => {
+                    const conversation = conversations.find(c => c.id === selectedConversation);
+                    if (!conversation) {
+                      return (
+                        <h6 className="mb-0">
+                          <i className="fa fa-user me-2"></i>
+                          Unknown
+                        </h6>
+                      );
+                    }
+
+                    const contact = conversation.peerInboxId ? getContact(conversation.peerInboxId) : null;
+
+                    return (
+                      <div className="d-flex align-items-center">
+                        <h6 className="mb-0" title={contact?.notes}>
+                          <i className={`fa ${conversation.kind === 'group' ? 'fa-users' : 'fa-user'} me-2`}></i>
+                          {getConversationLabel(conversation)}
+                        </h6>
+                        {conversation.kind === 'dm' && conversation.peerInboxId && (
+                          <Button
+                            color="link"
+                            size="sm"
+                            className="ms-2 p-0"
+                            onClick={() => openContactModal(conversation)}
+                            title={contact ? 'Edit contact' : 'Add to contacts'}
+                          >
+                            <i className={`fa ${contact ? 'fa-address-book' : 'fa-user-plus'}`}></i>
+                          </Button>
+                        )}
+                        {conversation.kind === 'group' && (
+                          <Button
+                            color="link"
+                            size="sm"
+                            className="ms-2 p-0"
+                            onClick={() => openMemberPanel(conversation)}
+                            title="Manage group members"
+                          >
+                            <Badge color="secondary" pill>
+                              {conversation.memberInboxIds?.length ?? 0} members
+                            </Badge>
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })()}
                   <small className="text-muted">
                     {isStreaming && (
                       <>
@@ -620,9 +1788,15 @@ const XMTPChat: React.FC = () => {
                         Live updates active
                       </>
                     )}
+                    {usePolling && (
+                      <>
+                        <i className="fa fa-circle text-warning me-1"></i>
+                        Reconnecting, checking for updates periodically
+                      </>
+                    )}
                   </small>
                 </CardHeader>
-                <CardBody className="messages-container">
+                <CardBody className="messages-container" innerRef={messagesContainerRef} onScroll={handleMessagesScroll}>
                   {loadingMessages ? (
                     <div className="text-center">
                       <Spinner color="primary" size="sm" />
@@ -630,13 +1804,38 @@ const XMTPChat: React.FC = () => {
                     </div>
                   ) : (
                     <div className="messages-list">
-                      {messages.length === 0 ? (
+                      {loadingOlderMessages && (
+                        <div className="text-center py-2">
+                          <Spinner color="primary" size="sm" />
+                          <span className="ms-2">Loading older messages...</span>
+                        </div>
+                      )}
+                      {!hasMoreMessages && visibleMessages.length > 0 && (
+                        <div className="text-center py-2">
+                          <small className="text-muted">Beginning of conversation</small>
+                        </div>
+                      )}
+                      {visibleMessages.length === 0 ? (
                         <div className="text-center p-4">
                           <i className="fa fa-comment fa-2x text-muted mb-2"></i>
                           <p className="text-muted">No messages yet. Start the conversation!</p>
                         </div>
                       ) : (
-                        messages.map(message => {
+                        visibleMessages.map(message => {
+                          // Événements de groupe : ligne système centrée
+                          if (message.contentType === 'group_updated') {
+                            return (
+                              <div key={message.id} className="message-system text-center my-2">
+                                {(message.groupUpdate ? describeGroupUpdate(message.groupUpdate) : [message.content]).map((line, index) => (
+                                  <small key={index} className="d-block text-muted">
+                                    <i className="fa fa-info-circle me-1"></i>
+                                    {line}
+                                  </small>
+                                ))}
+                              </div>
+                            );
+                          }
+
                           // Logique simple qui fonctionnait avant
                           const normalizedSender = message.senderAddress?.toLowerCase();
                           const normalizedUserAddress = address?.toLowerCase();
@@ -648,13 +1847,182 @@ const XMTPChat: React.FC = () => {
                           // Nettoyer le contenu du message
                           const messageContent = sanitizeMessageContent(message.content);
 
+                          // Afficher l'expéditeur dans les groupes
+                          const isGroupConversation =
+                            conversations.find(c => c.id === selectedConversation)?.kind === 'group';
+
+                          // Les messages pas encore stockés par le SDK n'ont pas d'id à référencer
+                          const canReact = !message.isLocal && message.status !== 'queued';
+                          const queuedItem =
+                            message.status === 'queued'
+                              ? outbox.find(item => item.id === message.id || item.preparedMessageId === message.id)
+                              : undefined;
+
                           return (
-                            <div key={message.id} className={`message ${isMessageSent ? 'message-sent' : 'message-received'}`}>
-                              <div className="message-content">{messageContent}</div>
+                            <div
+                              key={message.id}
+                              id={`message-${message.id}`}
+                              className={`message ${isMessageSent ? 'message-sent' : 'message-received'} ${
+                                highlightedMessageId === message.id ? 'message-highlighted' : ''
+                              }`}
+                              onMouseEnter={() => canReact && setHoveredMessageId(message.id)}
+                              onMouseLeave={() => setHoveredMessageId(current => (current === message.id ? null : current))}
+                            >
+                              {isGroupConversation && !isMessageSent && (
+                                <div className="message-sender">
+                                  <small className="text-muted">{formatAddress(message.senderAddress)}</small>
+                                </div>
+                              )}
+                              {hoveredMessageId === message.id && (
+                                <div className="reaction-picker">
+                                  {QUICK_REACTIONS.map(emoji => (
+                                    <Button
+                                      key={emoji}
+                                      color="link"
+                                      size="sm"
+                                      className="p-0 me-1 text-decoration-none"
+                                      onClick={() => handleToggleReaction(message, emoji)}
+                                      title={`React with ${emoji}`}
+                                    >
+                                      {emoji}
+                                    </Button>
+                                  ))}
+                                  <Button
+                                    color="link"
+                                    size="sm"
+                                    className="p-0 ms-1 text-muted"
+                                    onClick={() => {
+                                      setReplyingTo(message);
+                                      setHoveredMessageId(null);
+                                    }}
+                                    title="Reply"
+                                  >
+                                    <i className="fa fa-reply"></i>
+                                  </Button>
+                                </div>
+                              )}
+                              {message.replyTo &&
+                                (() => {
+                                  // L'original peut se trouver hors des pages chargées
+                                  const replyTo = message.replyTo;
+                                  const original = visibleMessages.find(msg => msg.id === replyTo) ?? quotedMessages[replyTo];
+
+                                  return (
+                                    <div
+                                      className="message-quote"
+                                      role="button"
+                                      onClick={() => jumpToMessage(replyTo)}
+                                      title="Go to original message"
+                                    >
+                                      {original ? (
+                                        <>
+                                          <small className="d-block fw-bold">
+                                            {isOwnSender(original.senderAddress) ? 'You' : formatAddress(original.senderAddress)}
+                                          </small>
+                                          <small className="text-muted">{formatQuoteSnippet(original)}</small>
+                                        </>
+                                      ) : (
+                                        <small className="text-muted fst-italic">Original message not loaded</small>
+                                      )}
+                                    </div>
+                                  );
+                                })()}
+                              {message.attachment ? (
+                                <div className="message-attachment">
+                                  {isImageAttachment(message) && attachmentUrls[message.id] ? (
+                                    <img
+                                      src={attachmentUrls[message.id]}
+                                      alt={message.attachment.filename}
+                                      className="img-fluid rounded"
+                                      role="button"
+                                      onClick={() => handleDownloadAttachment(message)}
+                                    />
+                                  ) : isImageAttachment(message) ? (
+                                    <div className="text-center p-2">
+                                      <Spinner color="secondary" size="sm" />
+                                    </div>
+                                  ) : (
+                                    <Button color="link" className="p-0 text-start" onClick={() => handleDownloadAttachment(message)}>
+                                      <i className="fa fa-file me-1"></i>
+                                      {message.attachment.filename}
+                                      <small className="text-muted ms-1">({formatFileSize(message.attachment.contentLength)})</small>
+                                      <i className="fa fa-download ms-1"></i>
+                                    </Button>
+                                  )}
+                                </div>
+                              ) : (
+                                <div className="message-content">{messageContent}</div>
+                              )}
                               <div className="message-time">
                                 {formatTime(message.sentAt)}
-                                {isMessageSent && <i className="fa fa-check ms-1 text-success"></i>}
+                                {isMessageSent && message.status === 'sending' && (
+                                  <i className="fa fa-clock ms-1 text-muted" title="Sending..."></i>
+                                )}
+                                {isMessageSent &&
+                                  message.status === 'sent' &&
+                                  (message.id === latestOutgoingMessage?.id ? (
+                                    <>
+                                      <i
+                                        className={`fa ${isLatestOutgoingRead ? 'fa-check-double text-success' : 'fa-check text-muted'} ms-1`}
+                                      ></i>
+                                      <span className="ms-1 text-muted">{isLatestOutgoingRead ? 'Read' : 'Delivered'}</span>
+                                    </>
+                                  ) : (
+                                    <i className="fa fa-check ms-1 text-muted" title="Delivered"></i>
+                                  ))}
+                                {isMessageSent && message.status === 'failed' && (
+                                  <i className="fa fa-exclamation-circle ms-1 text-danger" title="Failed to send"></i>
+                                )}
+                                {isMessageSent && message.status === 'queued' && (
+                                  <i className="fa fa-cloud-upload-alt ms-1 text-warning" title="Queued, will be sent when back online"></i>
+                                )}
                               </div>
+                              {message.reactions && message.reactions.length > 0 && (
+                                <div className="message-reactions">
+                                  {message.reactions.map(summary => (
+                                    <Button
+                                      key={summary.emoji}
+                                      color={summary.reactedByMe ? 'primary' : 'light'}
+                                      size="sm"
+                                      className="reaction-chip py-0 px-1 me-1"
+                                      onClick={() => handleToggleReaction(message, summary.emoji)}
+                                      title={summary.senderAddresses.map(formatAddress).join(', ')}
+                                    >
+                                      {summary.emoji} {summary.count}
+                                    </Button>
+                                  ))}
+                                </div>
+                              )}
+                              {isMessageSent && message.status === 'queued' && (
+                                <div className="message-actions">
+                                  {queuedItem?.failed ? (
+                                    <small className="text-danger me-2">Not sent: {queuedItem.lastError}</small>
+                                  ) : (
+                                    <small className="text-warning me-2">Waiting for connection</small>
+                                  )}
+                                  {/* Le service refuse si le message est déjà stocké par le SDK, sauf échec définitif */}
+                                  {queuedItem && (message.isLocal || queuedItem.failed) && (
+                                    <Button color="link" size="sm" className="p-0 text-muted" onClick={() => handleDiscardQueuedMessage(queuedItem)}>
+                                      <i className="fa fa-trash me-1"></i>
+                                      Discard
+                                    </Button>
+                                  )}
+                                </div>
+                              )}
+                              {isMessageSent && message.status === 'failed' && (
+                                <div className="message-actions">
+                                  <Button color="link" size="sm" className="p-0 me-2 text-danger" onClick={() => handleRetryMessage(message)}>
+                                    <i className="fa fa-redo me-1"></i>
+                                    Retry
+                                  </Button>
+                                  {message.isLocal && (
+                                    <Button color="link" size="sm" className="p-0 text-muted" onClick={() => handleDiscardMessage(message)}>
+                                      <i className="fa fa-trash me-1"></i>
+                                      Discard
+                                    </Button>
+                                  )}
+                                </div>
+                              )}
                             </div>
                           );
                         })
@@ -663,32 +2031,111 @@ const XMTPChat: React.FC = () => {
                     </div>
                   )}
                 </CardBody>
-                <div className="message-input-area">
-                  <Form onSubmit={handleSendMessage} className="d-flex p-3">
-                    <Input
-                      type="text"
-                      placeholder="Type your message..."
-                      value={messageInput}
-                      onChange={e => setMessageInput(e.target.value)}
-                      disabled={isSending}
-                      className="me-2"
-                      maxLength={1000}
-                    />
-                    <Button type="submit" color="primary" disabled={!messageInput.trim() || isSending} className="px-3">
-                      {isSending ? (
-                        <>
-                          <Spinner size="sm" className="me-1" />
-                          Sending...
-                        </>
-                      ) : (
+                {selectedConsentState !== 'allowed' ? (
+                  // Demande de message ou conversation bloquée : pas de saisie avant décision
+                  <div className="message-request-actions border-top p-3 text-center">
+                    <p className="text-muted mb-2">
+                      {selectedConsentState === 'unknown'
+                        ? 'This is a message request. Accept it to reply, or block the sender.'
+                        : 'You blocked this conversation. You will not receive its new messages.'}
+                    </p>
+                    {consentError && (
+                      <Alert color="danger" className="py-1" toggle={() => setConsentError(null)}>
+                        <small>{consentError}</small>
+                      </Alert>
+                    )}
+                    {selectedConsentState === 'unknown' ? (
+                      <>
+                        <Button
+                          color="primary"
+                          size="sm"
+                          className="me-2"
+                          disabled={isUpdatingConsent}
+                          onClick={() => handleUpdateConsent(selectedConversation, 'allowed')}
+                        >
+                          <i className="fa fa-check me-1"></i>
+                          Accept
+                        </Button>
+                        <Button
+                          color="outline-danger"
+                          size="sm"
+                          disabled={isUpdatingConsent}
+                          onClick={() => handleUpdateConsent(selectedConversation, 'denied')}
+                        >
+                          <i className="fa fa-ban me-1"></i>
+                          Block
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        color="outline-secondary"
+                        size="sm"
+                        disabled={isUpdatingConsent}
+                        onClick={() => handleUpdateConsent(selectedConversation, 'allowed')}
+                      >
+                        <i className="fa fa-unlock me-1"></i>
+                        Unblock
+                      </Button>
+                    )}
+                  </div>
+                ) : (
+                  <div className="message-input-area">
+                    {replyingTo && (
+                      <div className="reply-preview d-flex justify-content-between align-items-center px-3 pt-2">
+                        <div className="text-truncate">
+                          <small className="d-block text-primary">
+                            <i className="fa fa-reply me-1"></i>
+                            Replying to {isOwnSender(replyingTo.senderAddress) ? 'yourself' : formatAddress(replyingTo.senderAddress)}
+                          </small>
+                          <small className="text-muted">{formatQuoteSnippet(replyingTo)}</small>
+                        </div>
+                        <Button color="link" size="sm" className="text-muted" onClick={() => setReplyingTo(null)} title="Cancel reply">
+                          <i className="fa fa-times"></i>
+                        </Button>
+                      </div>
+                    )}
+                    {uploadProgress !== null && (
+                      <div className="px-3 pt-2">
+                        <small className="text-muted">Uploading attachment...</small>
+                        <Progress value={Math.round(uploadProgress * 100)} className="mt-1" />
+                      </div>
+                    )}
+                    {attachmentError && (
+                      <Alert color="danger" className="mx-3 mt-2 mb-0 py-1" toggle={() => setAttachmentError(null)}>
+                        <small>{attachmentError}</small>
+                      </Alert>
+                    )}
+                    <Form onSubmit={handleSendMessage} className="d-flex p-3">
+                      {canSendAttachments && (
                         <>
-                          <i className="fa fa-paper-plane me-1"></i>
-                          Send
+                          <input type="file" ref={fileInputRef} className="d-none" onChange={handleFileInputChange} />
+                          <Button
+                            type="button"
+                            color="outline-secondary"
+                            className="me-2"
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={uploadProgress !== null}
+                            title="Attach a file"
+                          >
+                            <i className="fa fa-paperclip"></i>
+                          </Button>
                         </>
                       )}
-                    </Button>
-                  </Form>
-                </div>
+                      <Input
+                        type="text"
+                        placeholder="Type your message..."
+                        value={messageInput}
+                        onChange={e => setMessageInput(e.target.value)}
+                        className="me-2"
+                        maxLength={1000}
+                      />
+                      <Button type="submit" color="primary" disabled={!messageInput.trim()} className="px-3">
+                        <i className="fa fa-paper-plane me-1"></i>
+                        Send
+                      </Button>
+                    </Form>
+                  </div>
+                )}
               </>
             ) : (
               <CardBody className="text-center">
@@ -720,12 +2167,12 @@ const XMTPChat: React.FC = () => {
           >
             <div className="mb-3">
               <label htmlFor="newConvoAddress" className="form-label">
-                <strong>Recipient Ethereum Address</strong>
+                <strong>Recipient Address or ENS Name</strong>
               </label>
               <Input
                 id="newConvoAddress"
                 type="text"
-                placeholder="0x1234567890abcdef..."
+                placeholder="0x1234567890abcdef... or alice.eth"
                 value={newConvoAddress}
                 onChange={e => handleAddressChange(e.target.value)}
                 disabled={isStartingConvo}
@@ -733,6 +2180,47 @@ const XMTPChat: React.FC = () => {
                 invalid={addressValidation.isValid && Boolean(addressValidation.error)}
               />
 
+              {/* Suggestions du carnet d'adresses */}
+              {(() => {
+                const query = newConvoAddress.trim().toLowerCase();
+                const suggestions = query
+                  ? contacts
+                      .filter(contact => contact.addresses.length > 0 && !contact.addresses.includes(query))
+                      .filter(contact => contact.nickname.toLowerCase().includes(query) || contact.addresses.some(addr => addr.includes(query)))
+                      .slice(0, 5)
+                  : [];
+                if (suggestions.length === 0) {
+                  return null;
+                }
+
+                return (
+                  <ul className="list-unstyled border rounded mt-1 mb-2">
+                    {suggestions.map(contact => (
+                      <li key={contact.inboxId}>
+                        <Button
+                          color="link"
+                          size="sm"
+                          className="w-100 text-start text-decoration-none"
+                          onClick={() => {
+                            if (validationTimeoutRef.current) {
+                              clearTimeout(validationTimeoutRef.current);
+                            }
+                            setNewConvoAddress(contact.addresses[0]);
+                            validateAddress(contact.addresses[0]);
+                          }}
+                        >
+                          <i className="fa fa-address-book me-2"></i>
+                          <strong>{contact.nickname}</strong>
+                          <small className="text-muted ms-2">
+                            {contact.addresses[0].slice(0, 6)}...{contact.addresses[0].slice(-4)}
+                          </small>
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                );
+              })()}
+
               {/* États de validation */}
               {addressValidation.isChecking && (
                 <small className="text-info">
@@ -751,12 +2239,16 @@ const XMTPChat: React.FC = () => {
               {addressValidation.canReceive && (
                 <small className="text-success">
                   <i className="fa fa-check me-1"></i>
-                  This address can receive XMTP messages
+                  {addressValidation.resolvedAddress
+                    ? `Resolved to ${addressValidation.resolvedAddress}, which can receive XMTP messages`
+                    : 'This address can receive XMTP messages'}
                 </small>
               )}
 
               {!addressValidation.error && !addressValidation.canReceive && !addressValidation.isChecking && (
-                <small className="text-muted">Enter the Ethereum address of the person you want to message.</small>
+                <small className="text-muted">
+                  Enter the Ethereum address, ENS name or contact nickname of the person you want to message.
+                </small>
               )}
             </div>
           </Form>
@@ -792,6 +2284,433 @@ const XMTPChat: React.FC = () => {
           </Button>
         </ModalFooter>
       </Modal>
+
+      {/* Modal des paramètres : installations du compte */}
+      <Modal isOpen={showSettingsPanel} toggle={() => !isRevoking && setShowSettingsPanel(false)} size="md">
+        <ModalHeader toggle={() => !isRevoking && setShowSettingsPanel(false)}>
+          <i className="fa fa-cog me-2"></i>
+          Settings
+        </ModalHeader>
+        <ModalBody>
+          <h6>
+            Installations <Badge color="secondary">{installations.length}</Badge>
+          </h6>
+          <p className="text-muted small">
+            Each browser or profile where you used XMTP is an installation of your inbox. The number of installations is
+            limited: revoke the ones you no longer use.
+          </p>
+
+          {loadingInstallations ? (
+            <div className="text-center">
+              <Spinner color="primary" size="sm" />
+              <span className="ms-2">Loading installations...</span>
+            </div>
+          ) : (
+            <ul className="list-unstyled">
+              {installations.map(installation => (
+                <li key={installation.id} className="d-flex justify-content-between align-items-center py-1">
+                  <span>
+                    <i className="fa fa-desktop me-2 text-muted"></i>
+                    <code title={installation.id}>{`${installation.id.slice(0, 8)}…`}</code>
+                    {installation.isCurrent && (
+                      <Badge color="success" className="ms-2">
+                        This browser
+                      </Badge>
+                    )}
+                    <br />
+                    <small className="text-muted">
+                      {installation.createdAt
+                        ? `Created ${new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' }).format(installation.createdAt)}`
+                        : 'Creation date unknown'}
+                    </small>
+                  </span>
+                  {!installation.isCurrent && (
+                    <Button
+                      color="outline-danger"
+                      size="sm"
+                      onClick={() => setPendingRevocation(installation)}
+                      disabled={isRevoking}
+                      title="Revoke this installation"
+                    >
+                      <i className="fa fa-ban"></i>
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {pendingRevocation && (
+            <Alert color="warning">
+              {pendingRevocation === 'all'
+                ? 'Revoke every installation except this browser?'
+                : `Revoke installation ${pendingRevocation.id.slice(0, 8)}…?`}{' '}
+              Revoked installations can no longer read or send messages. Your wallet will ask you to sign the revocation.
+              {signatureRequest === 'revoke_installations' && (
+                <div className="mt-2">
+                  <Spinner size="sm" className="me-2" />
+                  Waiting for your signature...
+                </div>
+              )}
+              <div className="d-flex justify-content-end mt-2">
+                <Button color="secondary" size="sm" className="me-2" onClick={() => setPendingRevocation(null)} disabled={isRevoking}>
+                  Cancel
+                </Button>
+                <Button color="danger" size="sm" onClick={handleConfirmRevocation} disabled={isRevoking}>
+                  {isRevoking ? (
+                    <>
+                      <Spinner size="sm" className="me-2" />
+                      Revoking...
+                    </>
+                  ) : (
+                    'Sign and revoke'
+                  )}
+                </Button>
+              </div>
+            </Alert>
+          )}
+
+          {installationsError && (
+            <small className="text-danger d-block mt-2">
+              <i className="fa fa-exclamation-triangle me-1"></i>
+              {installationsError}
+            </small>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button
+            color="outline-danger"
+            className="me-auto"
+            onClick={() => setPendingRevocation('all')}
+            disabled={isRevoking || loadingInstallations || !installations.some(installation => !installation.isCurrent)}
+          >
+            <i className="fa fa-ban me-2"></i>
+            Revoke All Others
+          </Button>
+          <Button color="secondary" onClick={() => setShowSettingsPanel(false)} disabled={isRevoking}>
+            Close
+          </Button>
+        </ModalFooter>
+      </Modal>
+
+      {/* Modal pour nouveau groupe */}
+      <Modal isOpen={showNewGroupModal} toggle={() => setShowNewGroupModal(false)} size="md">
+        <ModalHeader toggle={() => setShowNewGroupModal(false)}>
+          <i className="fa fa-users me-2"></i>
+          Create Group
+        </ModalHeader>
+        <ModalBody>
+          <Form
+            onSubmit={e => {
+              e.preventDefault();
+              handleCreateGroup();
+            }}
+          >
+            <div className="mb-3">
+              <label htmlFor="newGroupName" className="form-label">
+                <strong>Group Name</strong>
+              </label>
+              <Input
+                id="newGroupName"
+                type="text"
+                placeholder="Community chat"
+                value={newGroupName}
+                onChange={e => setNewGroupName(e.target.value)}
+                disabled={isCreatingGroup}
+                maxLength={100}
+              />
+            </div>
+            <div className="mb-3">
+              <label htmlFor="newGroupDescription" className="form-label">
+                <strong>Description</strong>
+              </label>
+              <Input
+                id="newGroupDescription"
+                type="text"
+                placeholder="What is this group about?"
+                value={newGroupDescription}
+                onChange={e => setNewGroupDescription(e.target.value)}
+                disabled={isCreatingGroup}
+                maxLength={300}
+              />
+            </div>
+            <div className="mb-3">
+              <label htmlFor="newGroupMembers" className="form-label">
+                <strong>Member Addresses</strong>
+              </label>
+              <Input
+                id="newGroupMembers"
+                type="textarea"
+                rows={4}
+                placeholder={'0x1234...\n0xabcd...'}
+                value={newGroupMembers}
+                onChange={e => setNewGroupMembers(e.target.value)}
+                disabled={isCreatingGroup}
+              />
+              <small className="text-muted">One Ethereum address per line (or separated by commas).</small>
+            </div>
+            {newGroupError && (
+              <small className="text-danger">
+                <i className="fa fa-exclamation-triangle me-1"></i>
+                {newGroupError}
+              </small>
+            )}
+          </Form>
+        </ModalBody>
+        <ModalFooter>
+          <Button
+            color="secondary"
+            onClick={() => {
+              setShowNewGroupModal(false);
+              resetNewGroupForm();
+            }}
+            disabled={isCreatingGroup}
+          >
+            Cancel
+          </Button>
+          <Button color="primary" onClick={handleCreateGroup} disabled={isCreatingGroup || !newGroupMembers.trim()}>
+            {isCreatingGroup ? (
+              <>
+                <Spinner size="sm" className="me-2" />
+                Creating...
+              </>
+            ) : (
+              <>
+                <i className="fa fa-users me-2"></i>
+                Create Group
+              </>
+            )}
+          </Button>
+        </ModalFooter>
+      </Modal>
+
+      {/* Fiche contact (conversations directes) */}
+      {(() => {
+        const conversation = conversations.find(c => c.id === selectedConversation);
+        if (!conversation || conversation.kind !== 'dm' || !conversation.peerInboxId) {
+          return null;
+        }
+
+        const contact = getContact(conversation.peerInboxId);
+
+        return (
+          <Modal isOpen={showContactModal} toggle={() => setShowContactModal(false)} size="md">
+            <ModalHeader toggle={() => setShowContactModal(false)}>
+              <i className="fa fa-address-book me-2"></i>
+              {contact ? 'Edit Contact' : 'Add Contact'}
+            </ModalHeader>
+            <ModalBody>
+              <Form
+                onSubmit={e => {
+                  e.preventDefault();
+                  handleSaveContact(conversation);
+                }}
+              >
+                <p className="text-muted small">
+                  {conversation.peerAddress}
+                  <br />
+                  Nicknames and notes are private and stored in this browser only.
+                </p>
+                <div className="mb-3">
+                  <label htmlFor="contactNickname" className="form-label">
+                    <strong>Nickname</strong>
+                  </label>
+                  <Input
+                    id="contactNickname"
+                    type="text"
+                    placeholder="Alice from work"
+                    value={contactNicknameInput}
+                    onChange={e => setContactNicknameInput(e.target.value)}
+                    disabled={isSavingContact}
+                    maxLength={100}
+                  />
+                </div>
+                <div className="mb-3">
+                  <label htmlFor="contactNotes" className="form-label">
+                    <strong>Notes</strong>
+                  </label>
+                  <Input
+                    id="contactNotes"
+                    type="textarea"
+                    rows={3}
+                    value={contactNotesInput}
+                    onChange={e => setContactNotesInput(e.target.value)}
+                    disabled={isSavingContact}
+                    maxLength={1000}
+                  />
+                </div>
+                {contactError && (
+                  <small className="text-danger">
+                    <i className="fa fa-exclamation-triangle me-1"></i>
+                    {contactError}
+                  </small>
+                )}
+              </Form>
+            </ModalBody>
+            <ModalFooter>
+              {contact && (
+                <Button
+                  color="outline-danger"
+                  className="me-auto"
+                  onClick={() => handleDeleteContact(conversation)}
+                  disabled={isSavingContact}
+                >
+                  <i className="fa fa-trash me-2"></i>
+                  Remove
+                </Button>
+              )}
+              <Button color="secondary" onClick={() => setShowContactModal(false)} disabled={isSavingContact}>
+                Cancel
+              </Button>
+              <Button
+                color="primary"
+                onClick={() => handleSaveContact(conversation)}
+                disabled={isSavingContact || !contactNicknameInput.trim()}
+              >
+                {isSavingContact ? (
+                  <>
+                    <Spinner size="sm" className="me-2" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <i className="fa fa-save me-2"></i>
+                    Save
+                  </>
+                )}
+              </Button>
+            </ModalFooter>
+          </Modal>
+        );
+      })()}
+
+      {/* Panneau des membres du groupe */}
+      {(() => {
+        const conversation = conversations.find(c => c.id === selectedConversation);
+        if (!conversation || conversation.kind !== 'group') {
+          return null;
+        }
+
+        const currentMember = groupMembers.find(member => member.isCurrentUser);
+        const canManageMembers = currentMember?.permissionLevel === 'admin' || currentMember?.permissionLevel === 'super_admin';
+
+        return (
+          <Modal isOpen={showMemberPanel} toggle={() => setShowMemberPanel(false)} size="md">
+            <ModalHeader toggle={() => setShowMemberPanel(false)}>
+              <i className="fa fa-users me-2"></i>
+              {getConversationLabel(conversation)}
+            </ModalHeader>
+            <ModalBody>
+              <div className="mb-3">
+                <label htmlFor="groupNameInput" className="form-label">
+                  <strong>Group Name</strong>
+                </label>
+                <Input
+                  id="groupNameInput"
+                  type="text"
+                  value={groupNameInput}
+                  onChange={e => setGroupNameInput(e.target.value)}
+                  disabled={isUpdatingGroup}
+                  maxLength={100}
+                />
+              </div>
+              <div className="mb-3">
+                <label htmlFor="groupDescriptionInput" className="form-label">
+                  <strong>Description</strong>
+                </label>
+                <Input
+                  id="groupDescriptionInput"
+                  type="text"
+                  value={groupDescriptionInput}
+                  onChange={e => setGroupDescriptionInput(e.target.value)}
+                  disabled={isUpdatingGroup}
+                  maxLength={300}
+                />
+              </div>
+              <div className="d-flex justify-content-end mb-3">
+                <Button
+                  color="outline-primary"
+                  size="sm"
+                  onClick={() => handleSaveGroupDetails(conversation)}
+                  disabled={isUpdatingGroup}
+                >
+                  <i className="fa fa-save me-1"></i>
+                  Save Details
+                </Button>
+              </div>
+
+              <h6>
+                Members <Badge color="secondary">{groupMembers.length}</Badge>
+              </h6>
+              {loadingMembers ? (
+                <div className="text-center">
+                  <Spinner color="primary" size="sm" />
+                  <span className="ms-2">Loading members...</span>
+                </div>
+              ) : (
+                <ul className="list-unstyled group-member-list">
+                  {groupMembers.map(member => (
+                    <li key={member.inboxId} className="d-flex justify-content-between align-items-center py-1">
+                      <span>
+                        {formatAddress(member.address)}
+                        {member.isCurrentUser && <small className="text-muted ms-1">(you)</small>}
+                        {member.permissionLevel !== 'member' && (
+                          <Badge color="info" className="ms-2">
+                            {member.permissionLevel === 'super_admin' ? 'Super admin' : 'Admin'}
+                          </Badge>
+                        )}
+                      </span>
+                      {canManageMembers && !member.isCurrentUser && (
+                        <Button
+                          color="outline-danger"
+                          size="sm"
+                          onClick={() => handleRemoveMember(member)}
+                          disabled={isUpdatingGroup}
+                          title="Remove from group"
+                        >
+                          <i className="fa fa-user-minus"></i>
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <Form
+                onSubmit={e => {
+                  e.preventDefault();
+                  handleAddMember();
+                }}
+                className="d-flex"
+              >
+                <Input
+                  type="text"
+                  placeholder="0x address to add"
+                  value={memberToAdd}
+                  onChange={e => setMemberToAdd(e.target.value)}
+                  disabled={isUpdatingGroup}
+                  className="me-2"
+                />
+                <Button type="submit" color="primary" disabled={isUpdatingGroup || !memberToAdd.trim()}>
+                  <i className="fa fa-user-plus"></i>
+                </Button>
+              </Form>
+
+              {memberPanelError && (
+                <small className="text-danger d-block mt-2">
+                  <i className="fa fa-exclamation-triangle me-1"></i>
+                  {memberPanelError}
+                </small>
+              )}
+            </ModalBody>
+            <ModalFooter>
+              <Button color="secondary" onClick={() => setShowMemberPanel(false)}>
+                Close
+              </Button>
+            </ModalFooter>
+          </Modal>
+        );
+      })()}
     </div>
   );
 };
@@ -0,0 +1,114 @@
+// Blob storage for remote attachments.
+// Payloads are encrypted before upload, so backends only ever see ciphertext.
+
+export interface AttachmentUploadOptions {
+  // Called with a value between 0 and 1
+  onProgress?: (progress: number) => void;
+}
+
+export interface AttachmentStorage {
+  /**
+   * Upload an encrypted payload and return the URL recipients will download it from
+   */
+  upload(payload: Uint8Array, options?: AttachmentUploadOptions): Promise<string>;
+  /**
+   * Download an encrypted payload previously returned by `upload`
+   */
+  download(url: string): Promise<Uint8Array>;
+}
+
+export interface S3AttachmentStorageConfig {
+  // Public base URL of the bucket (or its CDN), used to build download URLs
+  publicBaseUrl: string;
+  // Returns a presigned PUT URL for the object key. Presigning needs the bucket credentials, so it belongs on a server.
+  getUploadUrl: (key: string) => Promise<string>;
+}
+
+// Remote attachment URLs must be https: the codec refuses to send any other scheme
+const assertHttpsUrl = (url: string, name: string) => {
+  if (!url.startsWith('https://')) {
+    throw new Error(`${name} must be an https URL, got ${url}`);
+  }
+};
+
+// Base of the URLs handed out by the in-memory storage; .invalid never resolves, so they are only readable through it
+const MEMORY_ATTACHMENT_BASE_URL = 'https://memory.invalid';
+
+// Random object key: the file name stays inside the encrypted payload
+const createObjectKey = (): string => {
+  return `attachments/${crypto.randomUUID()}`;
+};
+
+/**
+ * S3-compatible storage (AWS S3, R2, MinIO...) using presigned PUT uploads.
+ * Throws if `publicBaseUrl` is not https, since recipients could not be sent its URLs.
+ */
+export const createS3AttachmentStorage = ({ publicBaseUrl, getUploadUrl }: S3AttachmentStorageConfig): AttachmentStorage => {
+  assertHttpsUrl(publicBaseUrl, 'publicBaseUrl');
+  const baseUrl = publicBaseUrl.replace(/\/+$/, '');
+
+  return {
+    async upload(payload, { onProgress } = {}) {
+      const key = createObjectKey();
+      const uploadUrl = await getUploadUrl(key);
+
+      // XMLHttpRequest rather than fetch to get upload progress events
+      await new Promise<void>((resolve, reject) => {
+        const request = new XMLHttpRequest();
+        request.open('PUT', uploadUrl);
+        request.setRequestHeader('Content-Type', 'application/octet-stream');
+        request.upload.onprogress = event => {
+          if (event.lengthComputable) {
+            onProgress?.(event.loaded / event.total);
+          }
+        };
+        request.onload = () => {
+          if (request.status >= 200 && request.status < 300) {
+            onProgress?.(1);
+            resolve();
+          } else {
+            reject(new Error(`Attachment upload failed: ${request.status} ${request.statusText}`));
+          }
+        };
+        request.onerror = () => reject(new Error('Network error. Attachment upload failed.'));
+        // Copy so the body is backed by a plain ArrayBuffer
+        request.send(payload.slice());
+      });
+
+      return `${baseUrl}/${key}`;
+    },
+
+    async download(url) {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Attachment download failed: ${response.status} ${response.statusText}`);
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    },
+  };
+};
+
+/**
+ * In-memory storage for tests and local development. Attachments only exist in the current tab.
+ * URLs are https-shaped so the codec accepts them, and are mapped back to the stored payloads on download.
+ */
+export const createMemoryAttachmentStorage = (): AttachmentStorage => {
+  const blobs = new Map<string, Uint8Array>();
+
+  return {
+    async upload(payload, { onProgress } = {}) {
+      const url = `${MEMORY_ATTACHMENT_BASE_URL}/${createObjectKey()}`;
+      blobs.set(url, payload.slice());
+      onProgress?.(1);
+      return url;
+    },
+
+    async download(url) {
+      const payload = blobs.get(url);
+      if (!payload) {
+        throw new Error(`Attachment not found: ${url}`);
+      }
+      return payload.slice();
+    },
+  };
+};
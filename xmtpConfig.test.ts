@@ -0,0 +1,32 @@
+// Config defaults and local database names.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_XMTP_CONFIG, getXMTPDbPath, resolveXMTPConfig } from './xmtpConfig';
+
+const ACCOUNT_ADDRESS = '0xAbCdEf0000000000000000000000000000000001';
+
+test('resolveXMTPConfig fills in the defaults and ignores undefined values', () => {
+  assert.deepEqual(resolveXMTPConfig(), DEFAULT_XMTP_CONFIG);
+
+  const config = resolveXMTPConfig({ env: undefined, messagePollingIntervalMs: 1000 });
+  assert.equal(config.env, 'production');
+  assert.equal(config.messagePollingIntervalMs, 1000);
+  assert.equal(config.conversationPollingIntervalMs, DEFAULT_XMTP_CONFIG.conversationPollingIntervalMs);
+});
+
+test('production keeps the historical database name and other envs get their own', () => {
+  const address = ACCOUNT_ADDRESS.toLowerCase();
+
+  assert.equal(getXMTPDbPath(resolveXMTPConfig(), ACCOUNT_ADDRESS), `xmtp-v3-db-${address}`);
+  assert.equal(getXMTPDbPath(resolveXMTPConfig({ env: 'dev' }), ACCOUNT_ADDRESS), `xmtp-v3-db-dev-${address}`);
+  assert.equal(getXMTPDbPath(resolveXMTPConfig({ env: 'local' }), ACCOUNT_ADDRESS), `xmtp-v3-db-local-${address}`);
+});
+
+test('an explicit dbPath is kept on every env, with its placeholders replaced', () => {
+  const config = resolveXMTPConfig({ env: 'dev', dbPath: 'app-{env}-{address}-{address}' });
+  assert.equal(config.dbPath, 'app-{env}-{address}-{address}');
+
+  const address = ACCOUNT_ADDRESS.toLowerCase();
+  assert.equal(getXMTPDbPath(config, ACCOUNT_ADDRESS), `app-dev-${address}-${address}`);
+  assert.equal(getXMTPDbPath(resolveXMTPConfig({ env: 'local', dbPath: 'shared-db' }), ACCOUNT_ADDRESS), 'shared-db');
+});
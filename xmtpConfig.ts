@@ -0,0 +1,64 @@
+// Network, storage and polling settings of the XMTP service.
+// Everything is optional: the defaults connect to the production network like the app always did.
+import { type ContentCodec } from '@xmtp/content-type-primitives';
+
+export type XMTPEnv = 'local' | 'dev' | 'production';
+
+export type XMTPLoggingLevel = 'off' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+// `auto` picks SCW for accounts with contract bytecode and EOA otherwise
+export type XMTPSignerType = 'auto' | 'EOA' | 'SCW';
+
+export interface XMTPConfig {
+  env?: XMTPEnv;
+  // Connect to this endpoint instead of the env's default one (e.g. a local node)
+  apiUrl?: string;
+  // Polling intervals used when the SDK streams are unavailable
+  messagePollingIntervalMs?: number;
+  conversationPollingIntervalMs?: number;
+  // Extra codecs registered after the built-in ones; their messages are shown with their fallback text
+  codecs?: ContentCodec[];
+  // Local database name; `{address}` and `{env}` are replaced with the lowercase account address and the env.
+  // Defaults to one database per env, keeping the historical name on production.
+  dbPath?: string;
+  loggingLevel?: XMTPLoggingLevel;
+  // Force the signer type, e.g. for a smart wallet that isn't deployed yet
+  signerType?: XMTPSignerType;
+}
+
+export type ResolvedXMTPConfig = Required<Omit<XMTPConfig, 'apiUrl'>> & Pick<XMTPConfig, 'apiUrl'>;
+
+// Other envs get their own database: sharing one would mix identities and messages of two networks
+const NON_PRODUCTION_DB_PATH = 'xmtp-v3-db-{env}-{address}';
+
+export const DEFAULT_XMTP_CONFIG: ResolvedXMTPConfig = {
+  env: 'production',
+  messagePollingIntervalMs: 3000,
+  conversationPollingIntervalMs: 10000,
+  codecs: [],
+  dbPath: 'xmtp-v3-db-{address}',
+  loggingLevel: 'info',
+  signerType: 'auto',
+};
+
+/**
+ * Fill in the defaults of a partial config
+ */
+export const resolveXMTPConfig = (config: XMTPConfig = {}): ResolvedXMTPConfig => {
+  const resolved: ResolvedXMTPConfig = {
+    ...DEFAULT_XMTP_CONFIG,
+    ...Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined)),
+  };
+
+  if (config.dbPath === undefined && resolved.env !== 'production') {
+    resolved.dbPath = NON_PRODUCTION_DB_PATH;
+  }
+
+  return resolved;
+};
+
+/**
+ * Local database name of an account
+ */
+export const getXMTPDbPath = (config: ResolvedXMTPConfig, accountAddress: string): string =>
+  config.dbPath.replace(/\{address\}/g, accountAddress.toLowerCase()).replace(/\{env\}/g, config.env);
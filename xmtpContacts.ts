@@ -0,0 +1,45 @@
+// Private address book: nicknames and notes for counterparties.
+// Contacts are stored in IndexedDB per account and keyed by inbox ID, so they follow the peer across linked addresses.
+import { createIndexedDbStore } from './xmtpIndexedDb';
+
+export interface XMTPContact {
+  accountAddress: string;
+  inboxId: string;
+  // Lowercase addresses linked to the inbox
+  addresses: string[];
+  nickname: string;
+  notes?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const CONTACTS_STORE = 'contacts';
+
+const runContactsRequest = createIndexedDbStore({
+  dbName: 'xmtp-contacts',
+  version: 1,
+  storeName: CONTACTS_STORE,
+  upgrade: db => {
+    if (!db.objectStoreNames.contains(CONTACTS_STORE)) {
+      const store = db.createObjectStore(CONTACTS_STORE, { keyPath: ['accountAddress', 'inboxId'] });
+      store.createIndex('accountAddress', 'accountAddress');
+    }
+  },
+});
+
+/**
+ * List the contacts of an account, sorted by nickname
+ */
+export const listContacts = async (accountAddress: string): Promise<XMTPContact[]> => {
+  const contacts = await runContactsRequest<XMTPContact[]>('readonly', store => store.index('accountAddress').getAll(accountAddress));
+
+  return contacts.sort((a, b) => a.nickname.localeCompare(b.nickname));
+};
+
+export const saveContact = async (contact: XMTPContact): Promise<void> => {
+  await runContactsRequest('readwrite', store => store.put(contact));
+};
+
+export const deleteContact = async (accountAddress: string, inboxId: string): Promise<void> => {
+  await runContactsRequest('readwrite', store => store.delete([accountAddress, inboxId]));
+};
@@ -0,0 +1,65 @@
+// Classification of SDK, wallet and network errors into service error codes.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ClientNotInitializedError, CodecNotFoundError, GroupNotFoundError, SignerUnavailableError } from '@xmtp/browser-sdk';
+import { ContentTypeText } from '@xmtp/content-type-text';
+import { XMTPNotRegisteredError, XMTPServiceError, toXMTPServiceError } from './xmtpErrors';
+
+test('service errors are returned unchanged, also when wrapped by the SDK', () => {
+  const notRegistered = new XMTPNotRegisteredError();
+  assert.equal(toXMTPServiceError(notRegistered), notRegistered);
+  assert.equal(toXMTPServiceError(new Error('Signer failed', { cause: notRegistered })), notRegistered);
+});
+
+test('known error types and codes are classified before the message', () => {
+  const rejected = Object.assign(new Error('Something went wrong'), { code: 4001 });
+  assert.equal(toXMTPServiceError(rejected).code, 'USER_REJECTED_SIGNATURE');
+
+  const timeout = new Error('aborted');
+  timeout.name = 'TimeoutError';
+  assert.equal(toXMTPServiceError(timeout).code, 'TIMEOUT');
+
+  assert.equal(toXMTPServiceError(new ClientNotInitializedError()).code, 'CLIENT_NOT_READY');
+  assert.equal(toXMTPServiceError(new SignerUnavailableError()).code, 'WALLET_NOT_CONNECTED');
+  assert.equal(toXMTPServiceError(new CodecNotFoundError(ContentTypeText)).code, 'INVALID_INPUT');
+
+  // The group ID mentions the network, but the error type wins
+  const notFound = toXMTPServiceError(new GroupNotFoundError('network-group'));
+  assert.equal(notFound.code, 'NOT_FOUND');
+  assert.equal(notFound.retryable, false);
+});
+
+test('errors without a known type are classified by their message', () => {
+  const cases: [string, string][] = [
+    ['User rejected the request.', 'USER_REJECTED_SIGNATURE'],
+    ['429 Too Many Requests', 'RATE_LIMITED'],
+    ['deadline exceeded', 'TIMEOUT'],
+    ['Blocked by CORS policy', 'NETWORK'],
+    ['Failed to fetch', 'NETWORK'],
+  ];
+
+  for (const [message, code] of cases) {
+    const classified = toXMTPServiceError(new Error(message));
+    assert.equal(classified.code, code, message);
+    assert.equal(classified.retryable, code !== 'USER_REJECTED_SIGNATURE', message);
+  }
+});
+
+test('WASM memory errors are recognized by their message', () => {
+  const classified = toXMTPServiceError(new TypeError('Cannot perform %TypedArray%.prototype.set on a detached ArrayBuffer'));
+  assert.equal(classified.code, 'WASM_MEMORY');
+  assert.equal(classified.retryable, true);
+});
+
+test('unknown errors keep their message, or the fallback message when they have none', () => {
+  const cause = new Error('Database is locked');
+  const unknown = toXMTPServiceError(cause, 'Failed to load');
+  assert.ok(unknown instanceof XMTPServiceError);
+  assert.equal(unknown.code, 'UNKNOWN');
+  assert.equal(unknown.message, 'Database is locked');
+  assert.equal(unknown.cause, cause);
+
+  assert.equal(toXMTPServiceError(new Error(''), 'Failed to load').message, 'Failed to load');
+  assert.equal(toXMTPServiceError('boom', 'Failed to load').message, 'Failed to load');
+  assert.equal(toXMTPServiceError(undefined).message, 'An unexpected error occurred');
+});
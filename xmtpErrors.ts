@@ -0,0 +1,203 @@
+// Errors thrown by the XMTP service.
+// Every error carries a stable code to branch on, whether retrying the same call may succeed, and the underlying cause.
+import {
+  ClientNotInitializedError,
+  CodecNotFoundError,
+  GroupNotFoundError,
+  InvalidGroupMembershipChangeError,
+  MissingContentTypeError,
+  SignerUnavailableError,
+  StreamNotFoundError,
+} from '@xmtp/browser-sdk';
+
+export type XMTPErrorCode =
+  // Network unreachable, request failed or CORS rejection
+  | 'NETWORK'
+  // The address has no XMTP identity
+  | 'NOT_REGISTERED'
+  // The user dismissed the wallet signature request
+  | 'USER_REJECTED_SIGNATURE'
+  // The WASM bindings lost their memory (detached ArrayBuffer, out-of-bounds access)
+  | 'WASM_MEMORY'
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'CLIENT_NOT_READY'
+  | 'WALLET_NOT_CONNECTED'
+  // Conversation, group or message missing from the local database
+  | 'NOT_FOUND'
+  // Rejected before reaching the network (empty message, file too large...)
+  | 'INVALID_INPUT'
+  | 'UNKNOWN';
+
+export interface XMTPServiceErrorOptions {
+  cause?: unknown;
+  // Defaults to the code's usual behavior
+  retryable?: boolean;
+}
+
+const RETRYABLE_CODES: XMTPErrorCode[] = ['NETWORK', 'RATE_LIMITED', 'TIMEOUT', 'WASM_MEMORY'];
+
+export class XMTPServiceError extends Error {
+  readonly code: XMTPErrorCode;
+  readonly retryable: boolean;
+  readonly cause: unknown;
+
+  constructor(code: XMTPErrorCode, message: string, { cause, retryable = RETRYABLE_CODES.includes(code) }: XMTPServiceErrorOptions = {}) {
+    super(message);
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'XMTPServiceError';
+    this.code = code;
+    this.retryable = retryable;
+    this.cause = cause;
+  }
+}
+
+export class XMTPNetworkError extends XMTPServiceError {
+  constructor(message = 'Network error. Please check your connection and try again.', options?: XMTPServiceErrorOptions) {
+    super('NETWORK', message, options);
+    this.name = 'XMTPNetworkError';
+  }
+}
+
+export class XMTPNotRegisteredError extends XMTPServiceError {
+  constructor(message = 'This address is not registered with XMTP.', options?: XMTPServiceErrorOptions) {
+    super('NOT_REGISTERED', message, options);
+    this.name = 'XMTPNotRegisteredError';
+  }
+}
+
+export class XMTPSignatureRejectedError extends XMTPServiceError {
+  constructor(message = 'The signature request was rejected in the wallet.', options?: XMTPServiceErrorOptions) {
+    super('USER_REJECTED_SIGNATURE', message, options);
+    this.name = 'XMTPSignatureRejectedError';
+  }
+}
+
+export class XMTPWasmMemoryError extends XMTPServiceError {
+  constructor(message = 'The XMTP client ran into a memory error.', options?: XMTPServiceErrorOptions) {
+    super('WASM_MEMORY', message, options);
+    this.name = 'XMTPWasmMemoryError';
+  }
+}
+
+export class XMTPRateLimitError extends XMTPServiceError {
+  constructor(message = 'Too many requests to the XMTP network. Please wait a moment.', options?: XMTPServiceErrorOptions) {
+    super('RATE_LIMITED', message, options);
+    this.name = 'XMTPRateLimitError';
+  }
+}
+
+export class XMTPTimeoutError extends XMTPServiceError {
+  constructor(message = 'The XMTP network took too long to respond.', options?: XMTPServiceErrorOptions) {
+    super('TIMEOUT', message, options);
+    this.name = 'XMTPTimeoutError';
+  }
+}
+
+export const isXMTPServiceError = (err: unknown): err is XMTPServiceError => err instanceof XMTPServiceError;
+
+/**
+ * Whether the WASM bindings failed because their memory was detached or overrun
+ */
+export const isWasmMemoryError = (err: unknown): err is Error =>
+  err instanceof Error &&
+  (err.message.includes('detached ArrayBuffer') ||
+    err.message.includes('Cannot perform %TypedArray%.prototype.set') ||
+    err.message.includes('memory access out of bounds'));
+
+// EIP-1193 code for a request rejected by the user
+const USER_REJECTED_REQUEST_CODE = 4001;
+
+/**
+ * Classify by error type and code: wallet rejections, timeouts and the error classes of the SDK
+ */
+const classifyKnownError = (err: Error): XMTPServiceError | null => {
+  if ((err as { code?: unknown }).code === USER_REJECTED_REQUEST_CODE || err.name === 'UserRejectedRequestError') {
+    return new XMTPSignatureRejectedError(undefined, { cause: err });
+  }
+
+  if (err.name === 'TimeoutError') {
+    return new XMTPTimeoutError(undefined, { cause: err });
+  }
+
+  if (err instanceof ClientNotInitializedError) {
+    return new XMTPServiceError('CLIENT_NOT_READY', 'Client not ready', { cause: err });
+  }
+
+  if (err instanceof SignerUnavailableError) {
+    return new XMTPServiceError('WALLET_NOT_CONNECTED', 'Wallet not connected', { cause: err });
+  }
+
+  if (err instanceof GroupNotFoundError || err instanceof StreamNotFoundError) {
+    return new XMTPServiceError('NOT_FOUND', err.message, { cause: err });
+  }
+
+  if (err instanceof InvalidGroupMembershipChangeError || err instanceof MissingContentTypeError || err instanceof CodecNotFoundError) {
+    return new XMTPServiceError('INVALID_INPUT', err.message, { cause: err });
+  }
+
+  return null;
+};
+
+const matches = (text: string, patterns: string[]) => patterns.some(pattern => text.includes(pattern));
+
+/**
+ * Last resort for errors without a type or code, such as those crossing from the SDK worker as plain messages
+ */
+const classifyByMessage = (err: Error): XMTPServiceError | null => {
+  const message = err.message.toLowerCase();
+
+  if (matches(message, ['user rejected', 'user denied', 'rejected the request'])) {
+    return new XMTPSignatureRejectedError(undefined, { cause: err });
+  }
+
+  if (matches(message, ['rate limit', 'too many requests', '429', 'resource exhausted'])) {
+    return new XMTPRateLimitError(undefined, { cause: err });
+  }
+
+  if (matches(message, ['timeout', 'timed out', 'deadline exceeded'])) {
+    return new XMTPTimeoutError(undefined, { cause: err });
+  }
+
+  if (message.includes('cors')) {
+    return new XMTPNetworkError('CORS Error: Please check your browser settings.', { cause: err });
+  }
+
+  if (matches(message, ['fetch', 'network', 'unavailable'])) {
+    return new XMTPNetworkError(undefined, { cause: err });
+  }
+
+  return null;
+};
+
+/**
+ * Classify an SDK, wallet or network error. Service errors are returned unchanged.
+ * Known error types are classified first; the message is only looked at for errors that would otherwise be UNKNOWN,
+ * which keep their message (or `fallbackMessage`) when nothing matches.
+ */
+export const toXMTPServiceError = (err: unknown, fallbackMessage = 'An unexpected error occurred'): XMTPServiceError => {
+  if (isXMTPServiceError(err)) {
+    return err;
+  }
+
+  // The SDK wraps errors thrown by the signer, which are already classified
+  const wrappedCause = (err as { cause?: unknown } | null)?.cause;
+  if (isXMTPServiceError(wrappedCause)) {
+    return wrappedCause;
+  }
+
+  if (isWasmMemoryError(err)) {
+    return new XMTPWasmMemoryError(undefined, { cause: err });
+  }
+
+  if (!(err instanceof Error)) {
+    return new XMTPServiceError('UNKNOWN', fallbackMessage, { cause: err });
+  }
+
+  return (
+    classifyKnownError(err) ??
+    classifyByMessage(err) ??
+    new XMTPServiceError('UNKNOWN', err.message || fallbackMessage, { cause: err })
+  );
+};
@@ -0,0 +1,77 @@
+// Batching and caching of inbox ID -> address lookups.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInboxAddressResolver, type InboxIdentityState } from './xmtpIdentityResolver';
+
+const addressOf = (inboxId: string) => `0x${inboxId}`;
+
+// Inbox state lookup recording its requests; `failing` makes the next requests throw
+const createFakeLookup = () => {
+  const lookup = {
+    requests: [] as string[][],
+    failing: false,
+    fetchInboxStates: async (inboxIds: string[]): Promise<InboxIdentityState[]> => {
+      lookup.requests.push(inboxIds);
+      if (lookup.failing) throw new Error('network unavailable');
+      return inboxIds
+        .filter(inboxId => inboxId !== 'no-address')
+        .map(inboxId => ({ inboxId, accountIdentifiers: [{ identifier: addressOf(inboxId), identifierKind: 'Ethereum' }] }));
+    },
+  };
+  return lookup;
+};
+
+// Let background lookups settle
+const flushLookups = () => new Promise(resolve => setTimeout(resolve, 0));
+
+test('lookups made in the same tick are sent as one request, in batches of maxBatchSize', async () => {
+  const lookup = createFakeLookup();
+  const resolver = createInboxAddressResolver(lookup.fetchInboxStates, { maxBatchSize: 2 });
+
+  const addresses = await Promise.all(['a', 'b', 'a', 'c', 'no-address'].map(inboxId => resolver.resolve(inboxId)));
+  assert.deepEqual(addresses, ['0xa', '0xb', '0xa', '0xc', null]);
+  assert.deepEqual(lookup.requests, [
+    ['a', 'b'],
+    ['c', 'no-address'],
+  ]);
+});
+
+test('results are cached until they expire or are invalidated', async () => {
+  const lookup = createFakeLookup();
+  const resolver = createInboxAddressResolver(lookup.fetchInboxStates);
+
+  assert.equal(await resolver.resolve('a'), '0xa');
+  assert.equal(await resolver.resolve('a'), '0xa');
+  assert.equal(await resolver.resolve('no-address'), null);
+  assert.equal(await resolver.resolve('no-address'), null);
+  assert.deepEqual(lookup.requests, [['a'], ['no-address']]);
+
+  resolver.invalidate(['a']);
+  assert.equal(await resolver.resolve('a'), '0xa');
+  assert.equal(lookup.requests.length, 3);
+});
+
+test('expired results are served immediately and refreshed in the background', async () => {
+  const lookup = createFakeLookup();
+  const resolver = createInboxAddressResolver(lookup.fetchInboxStates, { ttlMs: -1 });
+
+  assert.equal(await resolver.resolve('a'), '0xa');
+  lookup.failing = true;
+  assert.equal(await resolver.resolve('a'), '0xa');
+  assert.equal(lookup.requests.length, 2);
+
+  // A failed refresh keeps the previous result
+  await flushLookups();
+  assert.equal(await resolver.resolve('a'), '0xa');
+});
+
+test('failed lookups are not cached', async () => {
+  const lookup = createFakeLookup();
+  lookup.failing = true;
+  const resolver = createInboxAddressResolver(lookup.fetchInboxStates);
+
+  assert.equal(await resolver.resolve('a'), null);
+  lookup.failing = false;
+  assert.equal(await resolver.resolve('a'), '0xa');
+  assert.equal(lookup.requests.length, 2);
+});
@@ -0,0 +1,119 @@
+// Inbox ID -> Ethereum address resolution.
+// Lookups made in the same tick are sent as one inbox state request, and results are cached so a
+// conversation load costs one request per batch of unique senders instead of one per message.
+
+export interface InboxIdentityState {
+  inboxId: string;
+  accountIdentifiers: { identifier: string; identifierKind: string }[];
+}
+
+export interface InboxAddressResolverOptions {
+  // Results older than this are still returned, but refreshed in the background
+  ttlMs?: number;
+  // Maximum number of inbox IDs per request
+  maxBatchSize?: number;
+}
+
+export interface InboxAddressResolver {
+  /**
+   * Ethereum address linked to an inbox, or null if it has none or the lookup failed
+   */
+  resolve(inboxId: string): Promise<string | null>;
+  /**
+   * Drop cached results, e.g. after an inbox's linked addresses changed
+   */
+  invalidate(inboxIds?: string[]): void;
+}
+
+const DEFAULT_IDENTITY_TTL_MS = 10 * 60 * 1000;
+const DEFAULT_IDENTITY_BATCH_SIZE = 100;
+
+/**
+ * Create a resolver on top of a batched inbox state lookup
+ * (typically `client.preferences.inboxStateFromInboxIds(ids, true)`)
+ */
+export const createInboxAddressResolver = (
+  fetchInboxStates: (inboxIds: string[]) => Promise<InboxIdentityState[]>,
+  { ttlMs = DEFAULT_IDENTITY_TTL_MS, maxBatchSize = DEFAULT_IDENTITY_BATCH_SIZE }: InboxAddressResolverOptions = {},
+): InboxAddressResolver => {
+  const cache = new Map<string, { address: string | null; fetchedAt: number }>();
+  const inFlight = new Map<string, Promise<string | null>>();
+  let pending = new Map<string, (address: string | null) => void>();
+  let isFlushScheduled = false;
+
+  const fetchBatch = async (batch: Map<string, (address: string | null) => void>) => {
+    const inboxIds = Array.from(batch.keys());
+
+    try {
+      const states = await fetchInboxStates(inboxIds);
+      const addresses = new Map(
+        states.map(state => [
+          state.inboxId,
+          state.accountIdentifiers.find(id => id.identifierKind === 'Ethereum')?.identifier ?? null,
+        ]),
+      );
+
+      const fetchedAt = Date.now();
+      batch.forEach((resolve, inboxId) => {
+        const address = addresses.get(inboxId) ?? null;
+        cache.set(inboxId, { address, fetchedAt });
+        resolve(address);
+      });
+    } catch (fetchError) {
+      // Not cached: the next lookup tries again
+      console.warn('Failed to resolve inbox IDs:', fetchError);
+      batch.forEach((resolve, inboxId) => resolve(cache.get(inboxId)?.address ?? null));
+    } finally {
+      inboxIds.forEach(inboxId => inFlight.delete(inboxId));
+    }
+  };
+
+  const flush = () => {
+    isFlushScheduled = false;
+    const entries = Array.from(pending);
+    pending = new Map();
+
+    for (let start = 0; start < entries.length; start += maxBatchSize) {
+      void fetchBatch(new Map(entries.slice(start, start + maxBatchSize)));
+    }
+  };
+
+  const enqueue = (inboxId: string): Promise<string | null> => {
+    const lookup = new Promise<string | null>(resolve => pending.set(inboxId, resolve));
+    inFlight.set(inboxId, lookup);
+
+    if (!isFlushScheduled) {
+      isFlushScheduled = true;
+      queueMicrotask(flush);
+    }
+    return lookup;
+  };
+
+  return {
+    resolve(inboxId) {
+      if (!inboxId) {
+        return Promise.resolve(null);
+      }
+
+      const cached = cache.get(inboxId);
+      const existing = inFlight.get(inboxId);
+      if (cached) {
+        // Stale results are served immediately and refreshed in the background
+        if (!existing && Date.now() - cached.fetchedAt > ttlMs) {
+          void enqueue(inboxId);
+        }
+        return Promise.resolve(cached.address);
+      }
+
+      return existing ?? enqueue(inboxId);
+    },
+
+    invalidate(inboxIds) {
+      if (inboxIds) {
+        inboxIds.forEach(inboxId => cache.delete(inboxId));
+      } else {
+        cache.clear();
+      }
+    },
+  };
+};
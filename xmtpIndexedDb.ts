@@ -0,0 +1,47 @@
+// Single-store IndexedDB databases used by the outbox and the address book.
+// The database is opened lazily on the first request and the connection is shared; a failed open is retried by the next request.
+
+export interface IndexedDbStoreOptions {
+  dbName: string;
+  version: number;
+  storeName: string;
+  // Create the store and its indexes when the database is created or its version bumped.
+  // `transaction` is the version change transaction, to migrate the records of an older version.
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => void;
+}
+
+// Run a single request against the store; resolves with its result once the transaction completes
+export type IndexedDbRequestRunner = <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => Promise<T>;
+
+export const createIndexedDbStore = ({ dbName, version, storeName, upgrade }: IndexedDbStoreOptions): IndexedDbRequestRunner => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, version);
+
+        request.onupgradeneeded = event => upgrade(request.result, request.transaction!, event.oldVersion);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return dbPromise;
+  };
+
+  return async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+};
@@ -0,0 +1,99 @@
+// Human-readable names for Ethereum addresses (ENS by default).
+// The resolver is injectable so tests and local chains can use a stub.
+import { type Address, type PublicClient } from 'viem';
+import { normalize } from 'viem/ens';
+
+export interface NameResolver {
+  /**
+   * Forward lookup: name (e.g. `alice.eth`) to address, or null if it doesn't resolve
+   */
+  resolveName(name: string): Promise<string | null>;
+  /**
+   * Reverse lookup: address to its primary name, or null if none is set
+   */
+  lookupAddress(address: string): Promise<string | null>;
+}
+
+export interface CachedNameResolverOptions {
+  // How long results (including misses) are kept
+  ttlMs?: number;
+}
+
+const DEFAULT_NAME_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Utility to tell names apart from hex addresses in user input
+export const looksLikeName = (value: string): boolean => {
+  const trimmed = value.trim();
+  return !trimmed.startsWith('0x') && /^[^\s.]+(\.[^\s.]+)+$/.test(trimmed);
+};
+
+/**
+ * ENS resolver backed by a viem public client connected to mainnet
+ */
+export const createEnsNameResolver = (publicClient: PublicClient): NameResolver => ({
+  async resolveName(name) {
+    try {
+      const address = await publicClient.getEnsAddress({ name: normalize(name.trim()) });
+      return address ? address.toLowerCase() : null;
+    } catch (resolveError) {
+      console.warn('ENS forward lookup failed:', name, resolveError);
+      return null;
+    }
+  },
+
+  async lookupAddress(address) {
+    try {
+      return await publicClient.getEnsName({ address: address as Address });
+    } catch (lookupError) {
+      console.warn('ENS reverse lookup failed:', address, lookupError);
+      return null;
+    }
+  },
+});
+
+/**
+ * Fixed name/address pairs, for tests and local chains without ENS
+ */
+export const createStaticNameResolver = (names: Record<string, string>): NameResolver => {
+  const addressesByName = new Map(Object.entries(names).map(([name, address]) => [name.toLowerCase(), address.toLowerCase()]));
+  const namesByAddress = new Map(Array.from(addressesByName, ([name, address]) => [address, name]));
+
+  return {
+    async resolveName(name) {
+      return addressesByName.get(name.trim().toLowerCase()) ?? null;
+    },
+    async lookupAddress(address) {
+      return namesByAddress.get(address.toLowerCase()) ?? null;
+    },
+  };
+};
+
+/**
+ * Wrap a resolver with a TTL cache; concurrent lookups of the same key share one request
+ */
+export const createCachedNameResolver = (
+  resolver: NameResolver,
+  { ttlMs = DEFAULT_NAME_CACHE_TTL_MS }: CachedNameResolverOptions = {},
+): NameResolver => {
+  const cache = new Map<string, { value: Promise<string | null>; expiresAt: number }>();
+
+  const cached = (key: string, lookup: () => Promise<string | null>): Promise<string | null> => {
+    const entry = cache.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value;
+    }
+
+    const value = lookup().catch(lookupError => {
+      // Don't keep failures around
+      cache.delete(key);
+      throw lookupError;
+    });
+    cache.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return value;
+  };
+
+  return {
+    resolveName: name => cached(`name:${name.trim().toLowerCase()}`, () => resolver.resolveName(name)),
+    lookupAddress: address => cached(`address:${address.toLowerCase()}`, () => resolver.lookupAddress(address)),
+  };
+};
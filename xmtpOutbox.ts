@@ -0,0 +1,116 @@
+// Persistent outbox for messages that could not be published (offline, network errors).
+// Items are stored in IndexedDB per account and network so they survive page reloads.
+import { type XMTPEnv } from './xmtpConfig';
+import { createIndexedDbStore } from './xmtpIndexedDb';
+
+export interface OutboxItem {
+  id: string;
+  accountAddress: string;
+  // Network the conversation lives on; items of other networks are never flushed
+  env: XMTPEnv;
+  conversationId: string;
+  content: string;
+  // Id of the message this one replies to
+  replyTo?: string;
+  // SDK message id once the message has been stored with sendOptimistic
+  preparedMessageId?: string;
+  // Persisted before sendOptimistic; a retry without preparedMessageId looks for a message stored since then
+  preparingSince?: number;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  // Set when the message can never be sent (conversation gone, invalid content); it is skipped until discarded
+  failed?: boolean;
+}
+
+const OUTBOX_STORE = 'messages';
+
+// Retry backoff settings
+const OUTBOX_RETRY_BASE_DELAY_MS = 2000;
+const OUTBOX_RETRY_MAX_DELAY_MS = 60000;
+
+const runOutboxRequest = createIndexedDbStore({
+  dbName: 'xmtp-outbox',
+  version: 2,
+  storeName: OUTBOX_STORE,
+  upgrade: (db, transaction, oldVersion) => {
+    const store = db.objectStoreNames.contains(OUTBOX_STORE)
+      ? transaction.objectStore(OUTBOX_STORE)
+      : db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+
+    if (oldVersion >= 1) {
+      // Version 1 items predate per-network keys; production was the default network
+      store.deleteIndex('accountAddress');
+      store.deleteIndex('accountConversation');
+      store.openCursor().onsuccess = event => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        cursor.update({ env: 'production', ...cursor.value });
+        cursor.continue();
+      };
+    }
+
+    store.createIndex('accountEnv', ['accountAddress', 'env']);
+    store.createIndex('accountEnvConversation', ['accountAddress', 'env', 'conversationId']);
+  },
+});
+
+/**
+ * List queued messages for an account on a network (optionally a single conversation), oldest first
+ */
+export const listOutboxItems = async (accountAddress: string, env: XMTPEnv, conversationId?: string): Promise<OutboxItem[]> => {
+  const items = await runOutboxRequest<OutboxItem[]>('readonly', store =>
+    conversationId
+      ? store.index('accountEnvConversation').getAll([accountAddress, env, conversationId])
+      : store.index('accountEnv').getAll([accountAddress, env]),
+  );
+
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveOutboxItem = async (item: OutboxItem): Promise<void> => {
+  await runOutboxRequest('readwrite', store => store.put(item));
+};
+
+export const deleteOutboxItem = async (id: string): Promise<void> => {
+  await runOutboxRequest('readwrite', store => store.delete(id));
+};
+
+// Where the service keeps its outbox; IndexedDB by default
+export interface OutboxStorage {
+  list(accountAddress: string, env: XMTPEnv): Promise<OutboxItem[]>;
+  save(item: OutboxItem): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export const indexedDbOutboxStorage: OutboxStorage = {
+  list: (accountAddress, env) => listOutboxItems(accountAddress, env),
+  save: saveOutboxItem,
+  delete: deleteOutboxItem,
+};
+
+/**
+ * In-memory outbox for tests and environments without IndexedDB. Items are lost on reload.
+ */
+export const createMemoryOutboxStorage = (): OutboxStorage => {
+  const items = new Map<string, OutboxItem>();
+
+  return {
+    async list(accountAddress, env) {
+      return Array.from(items.values())
+        .filter(item => item.accountAddress === accountAddress && item.env === env)
+        .sort((a, b) => a.createdAt - b.createdAt);
+    },
+    async save(item) {
+      items.set(item.id, { ...item });
+    },
+    async delete(id) {
+      items.delete(id);
+    },
+  };
+};
+
+export const getOutboxRetryDelay = (attempts: number): number => {
+  return Math.min(OUTBOX_RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), OUTBOX_RETRY_MAX_DELAY_MS);
+};
@@ -0,0 +1,545 @@
+// XMTPService against a fake client, in Node (no browser storage, no WASM client).
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContentTypeText } from '@xmtp/content-type-text';
+import { ContentTypeReaction, type Reaction } from '@xmtp/content-type-reaction';
+import { ContentTypeReply } from '@xmtp/content-type-reply';
+import { AttachmentCodec, ContentTypeRemoteAttachment, RemoteAttachmentCodec, type RemoteAttachment } from '@xmtp/content-type-remote-attachment';
+import { type ContentTypeId } from '@xmtp/content-type-primitives';
+import { ConsentState, ContentType } from '@xmtp/wasm-bindings';
+import { createMemoryAttachmentStorage } from './xmtpAttachmentStorage';
+import { createMemoryOutboxStorage, type OutboxItem } from './xmtpOutbox';
+import {
+  XMTPService,
+  type XMTPPreferencesStorage,
+  type XMTPClient,
+  type XMTPClientFactory,
+  type XMTPServiceState,
+  type XMTPWallet,
+} from './xmtpService';
+
+const ACCOUNT_ADDRESS = '0x1111111111111111111111111111111111111111';
+const PEER_ADDRESS = '0x2222222222222222222222222222222222222222';
+const OWN_INBOX_ID = 'own-inbox';
+const PEER_INBOX_ID = 'peer-inbox';
+
+const wallet: XMTPWallet = {
+  address: ACCOUNT_ADDRESS,
+  chainId: 1,
+  signMessage: async () => `0x${'00'.repeat(65)}`,
+};
+
+const toNs = (ms: number) => BigInt(ms) * BigInt(1_000_000);
+
+// --- Fakes ---
+
+// Content types the fake conversations can filter on, as the SDK does with `contentTypes`
+const CONTENT_TYPE_IDS: [ContentType, ContentTypeId][] = [
+  [ContentType.Text, ContentTypeText],
+  [ContentType.Reaction, ContentTypeReaction],
+  [ContentType.Reply, ContentTypeReply],
+  [ContentType.RemoteAttachment, ContentTypeRemoteAttachment],
+];
+
+interface FakeMessage {
+  id: string;
+  conversationId: string;
+  senderInboxId: string;
+  sentAtNs: bigint;
+  contentType: ContentTypeId;
+  content: unknown;
+  fallback: undefined;
+  deliveryStatus: 'unpublished' | 'published';
+}
+
+interface FakeMessagesOptions {
+  limit?: bigint;
+  direction?: number;
+  sentAfterNs?: bigint;
+  sentBeforeNs?: bigint;
+  contentTypes?: ContentType[];
+}
+
+let messageCount = 0;
+
+const fakeMessage = (
+  conversationId: string,
+  content: unknown,
+  { senderInboxId = PEER_INBOX_ID, sentAt = Date.now(), contentType = ContentTypeText } = {},
+): FakeMessage => ({
+  id: `${conversationId}-message-${++messageCount}`,
+  conversationId,
+  senderInboxId,
+  sentAtNs: toNs(sentAt),
+  contentType,
+  content,
+  fallback: undefined,
+  deliveryStatus: 'published',
+});
+
+// Conversation methods shared by DMs and groups, over a mutable message list
+const createFakeConversation = (id: string, messages: FakeMessage[]) => {
+  const calls = { messages: [] as FakeMessagesOptions[], sendOptimistic: 0, publishMessages: 0 };
+
+  const conversation = {
+    id,
+    createdAt: new Date(Date.now() - 60_000),
+    calls,
+    messageList: messages,
+    // Replaced by tests to make sending fail
+    failSendOptimistic: null as Error | null,
+    failPublish: null as Error | null,
+    consentState: async () => ConsentState.Allowed,
+    updateConsentState: async () => {},
+    messages: async (options: FakeMessagesOptions = {}) => {
+      calls.messages.push(options);
+      const selected = messages
+        .filter(message => options.sentAfterNs === undefined || message.sentAtNs > options.sentAfterNs)
+        .filter(message => options.sentBeforeNs === undefined || message.sentAtNs < options.sentBeforeNs)
+        .filter(
+          message =>
+            !options.contentTypes ||
+            CONTENT_TYPE_IDS.some(([type, typeId]) => options.contentTypes!.includes(type) && typeId.sameAs(message.contentType)),
+        )
+        .sort((a, b) => (a.sentAtNs < b.sentAtNs ? -1 : 1));
+      if (options.direction === 1) selected.reverse();
+      return options.limit !== undefined ? selected.slice(0, Number(options.limit)) : selected;
+    },
+    sendOptimistic: async (content: unknown, contentType: ContentTypeId = ContentTypeText) => {
+      calls.sendOptimistic += 1;
+      if (conversation.failSendOptimistic) throw conversation.failSendOptimistic;
+      const message = fakeMessage(id, content, { senderInboxId: OWN_INBOX_ID, contentType });
+      message.deliveryStatus = 'unpublished';
+      messages.push(message);
+      return message.id;
+    },
+    publishMessages: async () => {
+      calls.publishMessages += 1;
+      if (conversation.failPublish) throw conversation.failPublish;
+      messages.forEach(message => (message.deliveryStatus = 'published'));
+    },
+    // Encode like the SDK does, so content the codecs refuse fails here too
+    send: async (content: unknown, contentType: ContentTypeId) => {
+      if (contentType.sameAs(ContentTypeRemoteAttachment)) {
+        new RemoteAttachmentCodec().encode(content as RemoteAttachment);
+      }
+      return `${id}-sent`;
+    },
+  };
+
+  return conversation;
+};
+
+// Extended in place: the conversation methods read the failure switches from the same object
+const createFakeDm = (id: string, messages: FakeMessage[] = []) =>
+  Object.assign(createFakeConversation(id, messages), {
+    peerInboxId: async () => PEER_INBOX_ID,
+  });
+
+const createFakeGroup = (id: string, messages: FakeMessage[] = []) =>
+  Object.assign(createFakeConversation(id, messages), {
+    name: 'Team',
+    description: 'Weekly sync',
+    imageUrl: '',
+    members: async () => [{ inboxId: OWN_INBOX_ID }, { inboxId: PEER_INBOX_ID }],
+    updateName: async () => {},
+  });
+
+type FakeConversation = ReturnType<typeof createFakeConversation>;
+
+const createFakeClient = (conversations: FakeConversation[]) => {
+  const calls = { list: 0, syncAll: 0 };
+  const client = {
+    inboxId: OWN_INBOX_ID,
+    installationId: 'installation-1',
+    calls,
+    // Replaced by tests to make syncing fail
+    syncAllError: null as Error | null,
+    conversations: {
+      syncAll: async () => {
+        calls.syncAll += 1;
+        if (client.syncAllError) throw client.syncAllError;
+      },
+      sync: async () => {},
+      list: async () => {
+        calls.list += 1;
+        return conversations;
+      },
+      getConversationById: async (conversationId: string) => conversations.find(conversation => conversation.id === conversationId),
+      getDmByInboxId: async (inboxId: string) => (inboxId === PEER_INBOX_ID ? conversations.find(c => 'peerInboxId' in c) : undefined),
+      newDm: async () => {
+        throw new Error('newDm should not be called when the DM exists');
+      },
+    },
+    preferences: {
+      inboxStateFromInboxIds: async (inboxIds: string[]) =>
+        inboxIds.map(inboxId => ({
+          inboxId,
+          accountIdentifiers: [{ identifier: inboxId === PEER_INBOX_ID ? PEER_ADDRESS : ACCOUNT_ADDRESS, identifierKind: 'Ethereum' }],
+        })),
+    },
+    findInboxIdByIdentifier: async ({ identifier }: { identifier: string }) => (identifier === PEER_ADDRESS ? PEER_INBOX_ID : undefined),
+    codecFor: () => new AttachmentCodec(),
+    close: () => {},
+  };
+
+  return client;
+};
+
+const createFakeFactory = (client: ReturnType<typeof createFakeClient>): XMTPClientFactory => ({
+  create: async () => client as unknown as XMTPClient,
+  canMessage: async identifiers => new Map(identifiers.map(identifier => [identifier.identifier, true])),
+});
+
+// A DM with one message from the peer and a group, the usual setup
+const createFakeSetup = () => {
+  const dm = createFakeDm('dm-1', [fakeMessage('dm-1', 'Hello')]);
+  const group = createFakeGroup('group-1');
+  const client = createFakeClient([dm, group]);
+  return { dm, group, client, clientFactory: createFakeFactory(client) };
+};
+
+const createMemoryPreferences = (): XMTPPreferencesStorage & { values: Map<string, string> } => {
+  const values = new Map<string, string>();
+  return { values, getItem: key => values.get(key) ?? null, setItem: (key, value) => void values.set(key, value) };
+};
+
+const createOutboxItem = (overrides: Partial<OutboxItem>): OutboxItem => ({
+  id: `outbox-${++messageCount}`,
+  accountAddress: ACCOUNT_ADDRESS,
+  env: 'production',
+  conversationId: 'dm-1',
+  content: 'Queued',
+  createdAt: Date.now(),
+  attempts: 0,
+  nextAttemptAt: 0,
+  ...overrides,
+});
+
+// Resolve once the state matches
+const waitForState = (service: XMTPService, predicate: (state: XMTPServiceState) => boolean): Promise<XMTPServiceState> =>
+  new Promise(resolve => {
+    if (predicate(service.getState())) {
+      resolve(service.getState());
+      return;
+    }
+
+    const unsubscribe = service.subscribe(() => {
+      if (predicate(service.getState())) {
+        unsubscribe();
+        resolve(service.getState());
+      }
+    });
+  });
+
+// Start a service for the wallet and wait for its client
+const startService = async (options: ConstructorParameters<typeof XMTPService>[0]): Promise<XMTPService> => {
+  const service = new XMTPService(options);
+  service.setWallet(wallet);
+  await waitForState(service, state => state.isReady || !!state.error);
+  return service;
+};
+
+// --- Client and conversations ---
+
+test('setWallet initializes the client and loadConversations lists DMs and groups', async () => {
+  const { clientFactory } = createFakeSetup();
+  const service = new XMTPService({ clientFactory, config: { env: 'dev' } });
+
+  try {
+    service.setWallet(wallet);
+    const readyState = await waitForState(service, state => state.isReady || !!state.error);
+    assert.equal(readyState.error, null);
+    assert.equal(readyState.inboxId, OWN_INBOX_ID);
+
+    await service.loadConversations();
+    const { conversations } = service.getState();
+    assert.equal(conversations.length, 2);
+
+    const dm = conversations.find(conversation => conversation.id === 'dm-1');
+    assert.equal(dm?.kind, 'dm');
+    assert.equal(dm?.peerAddress, PEER_ADDRESS);
+    assert.equal(dm?.lastMessage?.content, 'Hello');
+    assert.equal(dm?.consentState, 'allowed');
+
+    const group = conversations.find(conversation => conversation.id === 'group-1');
+    assert.equal(group?.kind, 'group');
+    assert.equal(group?.name, 'Team');
+    assert.deepEqual(group?.memberInboxIds, [OWN_INBOX_ID, PEER_INBOX_ID]);
+
+    // Group operations accept the fake group
+    await service.updateGroupName('group-1', 'Team 2');
+  } finally {
+    service.dispose();
+  }
+});
+
+test('startConversation reuses the DM found by inbox ID without listing conversations', async () => {
+  const { client, clientFactory } = createFakeSetup();
+  const service = await startService({ clientFactory });
+
+  try {
+    const listCalls = client.calls.list;
+    assert.equal(await service.startConversation(PEER_ADDRESS), 'dm-1');
+    assert.equal(client.calls.list, listCalls);
+
+    await assert.rejects(service.startConversation('0x3333333333333333333333333333333333333333'), { code: 'NOT_REGISTERED' });
+  } finally {
+    service.dispose();
+  }
+});
+
+test('initializeClient during a pending rebuild clears the recovery state', async () => {
+  const { client, clientFactory } = createFakeSetup();
+  const service = await startService({ clientFactory });
+
+  try {
+    client.syncAllError = new TypeError('Cannot perform %TypedArray%.prototype.set on a detached ArrayBuffer');
+    await service.loadConversations();
+    assert.equal(service.getState().recovery?.status, 'waiting');
+
+    client.syncAllError = null;
+    await service.initializeClient();
+    const state = service.getState();
+    assert.equal(state.isReady, true);
+    assert.equal(state.recovery, null);
+  } finally {
+    service.dispose();
+  }
+});
+
+test('canMessage checks every address in one request', async () => {
+  const requests: string[][] = [];
+  const { clientFactory } = createFakeSetup();
+  const service = await startService({
+    clientFactory: {
+      ...clientFactory,
+      canMessage: async identifiers => {
+        requests.push(identifiers.map(identifier => identifier.identifier));
+        return new Map(identifiers.map(identifier => [identifier.identifier, identifier.identifier === PEER_ADDRESS]));
+      },
+    },
+  });
+
+  try {
+    const result = await service.canMessage([PEER_ADDRESS, ` ${ACCOUNT_ADDRESS} `, PEER_ADDRESS]);
+    assert.deepEqual(requests.at(-1), [PEER_ADDRESS, ACCOUNT_ADDRESS]);
+    assert.deepEqual(
+      [...result.entries()],
+      [
+        [PEER_ADDRESS, true],
+        [ACCOUNT_ADDRESS, false],
+      ],
+    );
+  } finally {
+    service.dispose();
+  }
+});
+
+test('conversations without a last-read time start read instead of counting their history', async () => {
+  const lastReadKey = `xmtp-last-read-${ACCOUNT_ADDRESS}`;
+  const preferencesStorage = createMemoryPreferences();
+  const service = await startService({ clientFactory: createFakeSetup().clientFactory, preferencesStorage });
+
+  try {
+    await service.loadConversations();
+
+    const dm = service.getState().conversations.find(conversation => conversation.id === 'dm-1');
+    assert.equal(dm?.unreadCount, 0);
+    const storedTimes = JSON.parse(preferencesStorage.values.get(lastReadKey) ?? '{}');
+    assert.equal(typeof storedTimes['dm-1'], 'number');
+  } finally {
+    service.dispose();
+  }
+
+  // A stored last-read time older than the message still counts it
+  preferencesStorage.setItem(lastReadKey, JSON.stringify({ 'dm-1': 0 }));
+  const reloadedService = await startService({ clientFactory: createFakeSetup().clientFactory, preferencesStorage });
+  try {
+    await reloadedService.loadConversations();
+
+    const dm = reloadedService.getState().conversations.find(conversation => conversation.id === 'dm-1');
+    assert.equal(dm?.unreadCount, 1);
+  } finally {
+    reloadedService.dispose();
+  }
+});
+
+// --- Messages ---
+
+test('getMessages folds reactions into their targets and only fetches the missing reactions for older pages', async () => {
+  const start = Date.now() - 60_000;
+  const texts = [1, 2, 3, 4, 5].map(index => fakeMessage('dm-1', `Message ${index}`, { sentAt: start + index * 1000 }));
+  const reaction = (target: FakeMessage, emoji: string, sentAt: number) =>
+    fakeMessage('dm-1', { reference: target.id, content: emoji, action: 'added', schema: 'unicode' } satisfies Reaction, {
+      sentAt,
+      contentType: ContentTypeReaction,
+    });
+  const dm = createFakeDm('dm-1', [...texts, reaction(texts[0], '👍', start + 6000), reaction(texts[3], '🎉', start + 7000)]);
+  const client = createFakeClient([dm]);
+  const service = await startService({ clientFactory: createFakeFactory(client) });
+
+  try {
+    await service.loadConversations();
+    const reactionQueries = () => dm.calls.messages.filter(options => options.contentTypes?.includes(ContentType.Reaction));
+    const queriesBefore = reactionQueries().length;
+
+    const newestPage = await service.getMessages('dm-1', { limit: 2 });
+    assert.deepEqual(
+      newestPage.messages.map(message => message.content),
+      ['Message 4', 'Message 5'],
+    );
+    assert.equal(newestPage.hasMore, true);
+    assert.deepEqual(newestPage.messages[0].reactions?.map(summary => [summary.emoji, summary.count]), [['🎉', 1]]);
+
+    const middlePage = await service.getMessages('dm-1', { limit: 2, before: newestPage.oldestCursor! });
+    assert.deepEqual(
+      middlePage.messages.map(message => message.content),
+      ['Message 2', 'Message 3'],
+    );
+    // Only the range between this page and the previous one is fetched
+    const middleQuery = reactionQueries().at(-1);
+    assert.equal(middleQuery?.sentBeforeNs, texts[3].sentAtNs);
+    assert.equal(middleQuery?.sentAfterNs, texts[1].sentAtNs - BigInt(1));
+
+    const oldestPage = await service.getMessages('dm-1', { limit: 2, before: middlePage.oldestCursor! });
+    assert.deepEqual(
+      oldestPage.messages.map(message => message.content),
+      ['Message 1'],
+    );
+    assert.equal(oldestPage.hasMore, false);
+    assert.deepEqual(oldestPage.messages[0].reactions?.map(summary => [summary.emoji, summary.count]), [['👍', 1]]);
+    assert.equal(reactionQueries().length - queriesBefore, 3);
+  } finally {
+    service.dispose();
+  }
+});
+
+test('sendAttachment sends through the in-memory storage and loadAttachment reads it back', async () => {
+  const service = await startService({ clientFactory: createFakeSetup().clientFactory, attachmentStorage: createMemoryAttachmentStorage() });
+
+  try {
+    await service.loadConversations();
+
+    const file = new File([new TextEncoder().encode('attachment body')], 'notes.txt', { type: 'text/plain' });
+    const message = await service.sendAttachment('dm-1', file);
+    assert.equal(message.id, 'dm-1-sent');
+    assert.match(message.attachment?.remote?.url ?? '', /^https:\/\//);
+
+    const loaded = await service.loadAttachment(message.attachment!);
+    assert.equal(loaded.filename, 'notes.txt');
+    assert.equal(new TextDecoder().decode(loaded.data), 'attachment body');
+  } finally {
+    service.dispose();
+  }
+});
+
+// --- Outbox ---
+
+test('a network failure keeps the outbox item for a retry that publishes the stored message once', async () => {
+  const outboxStorage = createMemoryOutboxStorage();
+  const { dm, clientFactory } = createFakeSetup();
+  dm.failPublish = new Error('network unavailable');
+  const service = await startService({ clientFactory, outboxStorage });
+
+  let item: OutboxItem;
+  try {
+    await service.enqueueMessage('dm-1', 'Queued');
+    [item] = (await waitForState(service, state => state.outbox[0]?.attempts === 1)).outbox;
+    assert.equal(item.failed, undefined);
+    assert.ok(item.preparedMessageId);
+    assert.equal(dm.calls.sendOptimistic, 1);
+
+    // Stored by the SDK: it will be published, so it can't be discarded
+    await assert.rejects(service.discardQueuedMessage(item.id), { code: 'INVALID_INPUT' });
+  } finally {
+    service.dispose();
+  }
+
+  // Reload once the retry is due
+  dm.failPublish = null;
+  await outboxStorage.save({ ...item, nextAttemptAt: 0 });
+  const reloadedService = await startService({ clientFactory, outboxStorage });
+  try {
+    await waitForState(reloadedService, state => state.outbox.length === 0 && dm.calls.publishMessages === 2);
+    assert.equal(dm.calls.sendOptimistic, 1);
+    assert.deepEqual(await outboxStorage.list(ACCOUNT_ADDRESS, 'production'), []);
+  } finally {
+    reloadedService.dispose();
+  }
+});
+
+test('a flush interrupted after storing the message reuses it instead of storing it again', async () => {
+  const outboxStorage = createMemoryOutboxStorage();
+  const { dm, clientFactory } = createFakeSetup();
+  const preparingSince = Date.now() - 1000;
+  const storedMessage = fakeMessage('dm-1', 'Queued', { senderInboxId: OWN_INBOX_ID, sentAt: preparingSince + 10 });
+  storedMessage.deliveryStatus = 'unpublished';
+  dm.messageList.push(storedMessage);
+  await outboxStorage.save(createOutboxItem({ content: 'Queued', preparingSince }));
+
+  const service = await startService({ clientFactory, outboxStorage });
+  try {
+    await waitForState(service, state => state.outbox.length === 0 && dm.calls.publishMessages === 1);
+    assert.equal(dm.calls.sendOptimistic, 0);
+  } finally {
+    service.dispose();
+  }
+});
+
+test('an outbox item that can never be sent is marked failed and the rest of the queue is still sent', async () => {
+  const outboxStorage = createMemoryOutboxStorage();
+  const { dm, clientFactory } = createFakeSetup();
+  const missingItem = createOutboxItem({ conversationId: 'deleted-conversation', createdAt: Date.now() - 2000 });
+  await outboxStorage.save(missingItem);
+  await outboxStorage.save(createOutboxItem({ createdAt: Date.now() - 1000 }));
+
+  const service = await startService({ clientFactory, outboxStorage });
+  try {
+    const { outbox } = await waitForState(service, state => state.outbox.length === 1 && !!state.outbox[0].failed);
+    assert.equal(outbox[0].id, missingItem.id);
+    assert.equal(dm.calls.publishMessages, 1);
+
+    // Failed items are not retried, only discarded
+    await service.flushOutbox();
+    assert.equal(service.getState().outbox[0].attempts, 1);
+    await service.discardQueuedMessage(missingItem.id);
+    assert.deepEqual(service.getState().outbox, []);
+  } finally {
+    service.dispose();
+  }
+});
+
+test('an outbox item whose preparation failed can be discarded', async () => {
+  const outboxStorage = createMemoryOutboxStorage();
+  const { dm, clientFactory } = createFakeSetup();
+  dm.failSendOptimistic = new Error('network unavailable');
+  const service = await startService({ clientFactory, outboxStorage });
+
+  try {
+    const queuedItem = await service.enqueueMessage('dm-1', 'Queued');
+    const [item] = (await waitForState(service, state => state.outbox[0]?.attempts === 1)).outbox;
+    assert.equal(item.preparingSince, undefined);
+
+    await service.discardQueuedMessage(queuedItem.id);
+    assert.deepEqual(service.getState().outbox, []);
+    assert.deepEqual(await outboxStorage.list(ACCOUNT_ADDRESS, 'production'), []);
+  } finally {
+    service.dispose();
+  }
+});
+
+test('outbox items of another network are not flushed', async () => {
+  const outboxStorage = createMemoryOutboxStorage();
+  const { dm, clientFactory } = createFakeSetup();
+  await outboxStorage.save(createOutboxItem({ env: 'dev' }));
+
+  const service = await startService({ clientFactory, outboxStorage });
+  try {
+    await service.flushOutbox();
+    assert.deepEqual(service.getState().outbox, []);
+    assert.equal(dm.calls.sendOptimistic, 0);
+  } finally {
+    service.dispose();
+  }
+});
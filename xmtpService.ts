@@ -0,0 +1,3205 @@
+// Framework-agnostic XMTP service: client lifecycle, conversation index, streams and polling, outbox, names and contacts.
+// State is published as immutable snapshots; the React hook in useXMTPServe.ts is a thin adapter over it.
+import { toBytes } from 'viem';
+
+
+// --- Imports from the browser SDK ---
+import {
+  Client,
+  type Dm,
+  type Group,
+  type Signer,
+  type Identifier,
+  type DecodedMessage,
+  type Conversation,
+  type ClientOptions,
+  type AsyncStream,
+  type StreamCallback,
+} from '@xmtp/browser-sdk';
+
+// --- Content Codecs ---
+import { TextCodec, ContentTypeText } from '@xmtp/content-type-text';
+import { GroupUpdatedCodec, ContentTypeGroupUpdated, type GroupUpdated } from '@xmtp/content-type-group-updated';
+import { ReactionCodec, ContentTypeReaction, type Reaction } from '@xmtp/content-type-reaction';
+import { ReplyCodec, ContentTypeReply, type Reply } from '@xmtp/content-type-reply';
+import { ReadReceiptCodec, ContentTypeReadReceipt } from '@xmtp/content-type-read-receipt';
+import {
+  AttachmentCodec,
+  RemoteAttachmentCodec,
+  ContentTypeAttachment,
+  ContentTypeRemoteAttachment,
+  type Attachment,
+  type RemoteAttachment,
+} from '@xmtp/content-type-remote-attachment';
+import { ContentTypeId, type ContentCodec } from '@xmtp/content-type-primitives';
+import { type ExtractCodecContentTypes } from '@xmtp/browser-sdk';
+import { ConsentState, ContentType, IdentifierKind, PermissionLevel, SignatureRequestType } from '@xmtp/wasm-bindings';
+
+// --- Offline outbox ---
+import { type OutboxItem, type OutboxStorage, indexedDbOutboxStorage, getOutboxRetryDelay } from './xmtpOutbox';
+
+export type { OutboxItem, OutboxStorage } from './xmtpOutbox';
+
+// --- Attachment storage ---
+import { type AttachmentStorage } from './xmtpAttachmentStorage';
+
+export type { AttachmentStorage } from './xmtpAttachmentStorage';
+
+// --- Name resolution ---
+import { type NameResolver, createCachedNameResolver } from './xmtpNameResolver';
+
+export type { NameResolver } from './xmtpNameResolver';
+
+// --- Contacts ---
+import { type XMTPContact, listContacts, saveContact as storeContact, deleteContact as removeStoredContact } from './xmtpContacts';
+
+export type { XMTPContact } from './xmtpContacts';
+
+// --- Configuration ---
+import {
+  type XMTPConfig,
+  type ResolvedXMTPConfig,
+  type XMTPEnv,
+  type XMTPSignerType,
+  getXMTPDbPath,
+  resolveXMTPConfig,
+} from './xmtpConfig';
+
+export type { XMTPConfig, XMTPEnv, XMTPLoggingLevel, XMTPSignerType } from './xmtpConfig';
+
+// --- Identity resolution ---
+import { type InboxAddressResolver, createInboxAddressResolver } from './xmtpIdentityResolver';
+
+// --- Errors ---
+import {
+  type XMTPErrorCode,
+  XMTPServiceError,
+  XMTPNotRegisteredError,
+  XMTPTimeoutError,
+  XMTPWasmMemoryError,
+  isWasmMemoryError,
+  toXMTPServiceError,
+} from './xmtpErrors';
+
+export {
+  XMTPServiceError,
+  XMTPNetworkError,
+  XMTPNotRegisteredError,
+  XMTPSignatureRejectedError,
+  XMTPWasmMemoryError,
+  XMTPRateLimitError,
+  XMTPTimeoutError,
+  isXMTPServiceError,
+} from './xmtpErrors';
+export type { XMTPErrorCode } from './xmtpErrors';
+
+// Define the content types that our client will support
+export type ClientCodecs = [
+  TextCodec,
+  GroupUpdatedCodec,
+  ReactionCodec,
+  ReplyCodec,
+  ReadReceiptCodec,
+  AttachmentCodec,
+  RemoteAttachmentCodec,
+];
+type ClientContentTypes = ExtractCodecContentTypes<ClientCodecs>;
+
+export type XMTPClient = Client<ClientContentTypes>;
+type XMTPConversationHandle = Dm<ClientContentTypes> | Group<ClientContentTypes>;
+
+// The kind is read from the handle's shape rather than the SDK classes, so conversations of a fake client are recognized too
+const isDmHandle = (conversation: XMTPConversationHandle): conversation is Dm<ClientContentTypes> =>
+  typeof (conversation as Partial<Dm<ClientContentTypes>>).peerInboxId === 'function';
+
+const isGroupHandle = (conversation: XMTPConversationHandle): conversation is Group<ClientContentTypes> =>
+  !isDmHandle(conversation) && typeof (conversation as Partial<Group<ClientContentTypes>>).updateName === 'function';
+
+const createClientCodecs = (): ClientCodecs => [
+  new TextCodec(),
+  new GroupUpdatedCodec(),
+  new ReactionCodec(),
+  new ReplyCodec(),
+  new ReadReceiptCodec(),
+  new AttachmentCodec(),
+  new RemoteAttachmentCodec(),
+];
+
+// Transport currently used to receive new messages
+export type MessageTransport = 'stream' | 'polling' | 'idle';
+
+// Stream reconnection settings
+const STREAM_RECONNECT_BASE_DELAY_MS = 1000;
+const STREAM_RECONNECT_MAX_DELAY_MS = 30000;
+const STREAM_MAX_RECONNECT_ATTEMPTS = 5;
+// The SDK reports undecodable values and stream failures through the same callback error;
+// a stream is only considered failed once errors keep coming without a value in between
+const STREAM_MAX_CONSECUTIVE_ERRORS = 3;
+
+// Outbox failures that retrying can't fix: the item is marked failed and later items are still sent
+const OUTBOX_PERMANENT_FAILURE_CODES: XMTPErrorCode[] = ['NOT_FOUND', 'INVALID_INPUT', 'NOT_REGISTERED'];
+
+// Rebuilds of a client broken by a WASM memory error, spaced like stream reconnections, before the user has to step in
+const MAX_CLIENT_RECOVERY_ATTEMPTS = 5;
+
+// Progress of the rebuild of a broken client
+export interface XMTPRecoveryState {
+  // Current attempt, from 1 to maxAttempts
+  attempt: number;
+  maxAttempts: number;
+  // Waiting for the backoff delay, or rebuilding the client from the local database
+  status: 'waiting' | 'rebuilding';
+  // When the attempt starts (ms timestamp), while waiting
+  nextAttemptAt: number | null;
+  reason: XMTPServiceError;
+}
+
+export type XMTPConversationKind = 'dm' | 'group';
+
+// Consent of the current user for a conversation: allowed, unknown (message request) or denied (blocked)
+export type XMTPConsentState = 'allowed' | 'unknown' | 'denied';
+
+// Delivery state of a message, derived from the SDK delivery status
+// `queued` messages wait in the offline outbox
+export type XMTPMessageStatus = 'sending' | 'sent' | 'failed' | 'queued';
+
+// Discriminator for how a message should be rendered
+export type XMTPMessageContentType = 'text' | 'group_updated' | 'reaction' | 'read_receipt' | 'attachment' | 'unknown';
+
+// File attached to a message. Remote attachments are downloaded and decrypted with `loadAttachment`.
+export interface XMTPAttachment {
+  filename: string;
+  // Only known up front for inline attachments
+  mimeType?: string;
+  contentLength: number;
+  // Encrypted payload location and key material
+  remote?: RemoteAttachment;
+  // Inline attachment data
+  data?: Uint8Array;
+}
+
+// Decrypted attachment content
+export interface XMTPAttachmentData {
+  filename: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+// Editable fields of a contact
+export interface XMTPContactInput {
+  inboxId: string;
+  addresses: string[];
+  nickname: string;
+  notes?: string;
+}
+
+export interface XMTPServiceOptions {
+  // Where encrypted attachments are uploaded; attachments can't be sent without it
+  attachmentStorage?: AttachmentStorage;
+  // Forward/reverse name lookups. Pass a stable instance, it is wrapped in a cache.
+  nameResolver?: NameResolver;
+  // Creates the SDK client; defaults to `Client.create`
+  clientFactory?: XMTPClientFactory;
+  // Network, storage and polling settings
+  config?: XMTPConfig;
+  // Where per-account preferences and last-read times are kept; defaults to localStorage when there is one
+  preferencesStorage?: XMTPPreferencesStorage | null;
+  // Where queued messages are persisted; defaults to IndexedDB
+  outboxStorage?: OutboxStorage;
+}
+
+// Synchronous key-value storage for small per-account settings (localStorage, or an in-memory map in tests)
+export type XMTPPreferencesStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+// Options handed to the client factory. The built-in codecs always come first.
+export type XMTPClientOptions = Omit<ClientOptions, 'codecs'> & { codecs: ContentCodec[] };
+
+// Creates SDK clients. Tests can inject one returning a fake client.
+export interface XMTPClientFactory {
+  // Registers the installation if needed, asking the signer for signatures
+  create(signer: Signer, options: XMTPClientOptions): Promise<XMTPClient>;
+  // Opens the installation stored in the local database without signing; omit it to always use `create`
+  build?(identifier: Identifier, options: XMTPClientOptions): Promise<XMTPClient>;
+  canMessage(identifiers: Identifier[], env: XMTPEnv): Promise<Map<string, boolean>>;
+}
+
+export const defaultClientFactory: XMTPClientFactory = {
+  // Extra codecs only add content types rendered with their fallback, so the client keeps the built-in typing
+  create: (signer, options) => Client.create<ClientCodecs>(signer, { ...options, codecs: options.codecs as ClientCodecs }),
+  build: (identifier, options) => Client.build<ClientCodecs>(identifier, { ...options, codecs: options.codecs as ClientCodecs }),
+  canMessage: (identifiers, env) => Client.canMessage(identifiers, env),
+};
+
+// Why the wallet is asked to sign: creating the XMTP identity of a new account,
+// authorizing this browser as a new installation of an existing one, or revoking other installations
+export type XMTPSignatureRequest = 'create_identity' | 'authorize_installation' | 'revoke_installations';
+
+// Account the client signs with. `signMessage` returns a hex signature.
+export interface XMTPWallet {
+  address: string;
+  // Chain the wallet is connected to; required for smart contract wallets
+  chainId?: number;
+  signMessage(message: string): Promise<string>;
+  // Bytecode at the address on the current chain, used to detect smart contract wallets
+  getCode?(): Promise<string | undefined>;
+  // Current block number, pinned in SCW signatures; the network's latest block is used without it
+  getBlockNumber?(): Promise<bigint>;
+}
+
+export type XMTPReactionAction = 'added' | 'removed';
+
+// A single reaction message, pointing at the message it reacts to
+export interface XMTPReaction {
+  reference: string;
+  emoji: string;
+  action: XMTPReactionAction;
+}
+
+// Reactions aggregated per emoji on a target message
+export interface XMTPReactionSummary {
+  emoji: string;
+  count: number;
+  senderAddresses: string[];
+  reactedByMe: boolean;
+}
+
+// GroupUpdated content with inbox IDs resolved to addresses where possible
+export interface XMTPGroupUpdate {
+  initiatedBy: string;
+  addedMembers: string[];
+  removedMembers: string[];
+  metadataChanges: {
+    field: string;
+    oldValue?: string;
+    newValue?: string;
+  }[];
+}
+
+export interface XMTPConversation {
+  id: string;
+  kind: XMTPConversationKind;
+  // Peer address for DMs, group name for groups
+  peerAddress: string;
+  // Peer inbox ID (only set for DMs)
+  peerInboxId?: string;
+  createdAt: Date;
+  lastMessage?: {
+    content: string;
+    contentType: XMTPMessageContentType;
+    groupUpdate?: XMTPGroupUpdate;
+    reaction?: XMTPReaction;
+    sentAt: Date;
+    senderAddress: string;
+  };
+  // Group metadata (only set when kind === 'group')
+  name?: string;
+  description?: string;
+  imageUrl?: string;
+  memberInboxIds?: string[];
+  // Messages from others received after the conversation was last read (capped at MAX_UNREAD_COUNT + 1)
+  unreadCount: number;
+  consentState: XMTPConsentState;
+}
+
+export interface XMTPGroupMember {
+  inboxId: string;
+  address: string;
+  permissionLevel: 'member' | 'admin' | 'super_admin';
+  isCurrentUser: boolean;
+}
+
+// Browser or device registered with the account's inbox
+export interface XMTPInstallation {
+  id: string;
+  // Null when the network did not report it
+  createdAt: Date | null;
+  // The installation this client runs on
+  isCurrent: boolean;
+}
+
+export interface XMTPGroupOptions {
+  name?: string;
+  description?: string;
+  imageUrl?: string;
+}
+
+export interface XMTPMessage {
+  id: string;
+  content: string;
+  contentType: XMTPMessageContentType;
+  groupUpdate?: XMTPGroupUpdate;
+  // Set on reaction messages (contentType === 'reaction')
+  reaction?: XMTPReaction;
+  // Reactions received for this message
+  reactions?: XMTPReactionSummary[];
+  // Id of the message this one replies to; it may not be part of the loaded pages
+  replyTo?: string;
+  // Set on attachment messages (contentType === 'attachment')
+  attachment?: XMTPAttachment;
+  senderAddress: string;
+  sentAt: Date;
+  conversationId: string;
+  status: XMTPMessageStatus;
+  // True while the message only exists in the UI and has not been stored by the SDK
+  isLocal?: boolean;
+}
+
+// Cursor pagination for getMessages. Cursors are message `sentAtNs` values serialized as strings.
+export interface XMTPMessageQuery {
+  limit?: number;
+  // Only return messages sent strictly before this cursor (older page)
+  before?: string;
+  // Only return messages sent strictly after this cursor (newer page)
+  after?: string;
+}
+
+export interface XMTPMessagePage {
+  // Sorted oldest first
+  messages: XMTPMessage[];
+  // Whether more messages exist beyond this page in the requested direction
+  hasMore: boolean;
+  // Cursor of the oldest message in the page, to pass as `before` for the previous page
+  oldestCursor: string | null;
+  // Cursor of the newest message in the page, to pass as `after` for newer messages
+  newestCursor: string | null;
+}
+
+const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+
+// Content types rendered as bubbles; reactions are folded into their target message instead
+const DISPLAYED_CONTENT_TYPES = [
+  ContentType.Text,
+  ContentType.Reply,
+  ContentType.Attachment,
+  ContentType.RemoteAttachment,
+  ContentType.GroupUpdated,
+  ContentType.GroupMembershipChange,
+];
+
+const MAX_ATTACHMENT_SIZE_BYTES = 25 * 1024 * 1024;
+
+// Content types that can be shown as a conversation's last message (read receipts are never shown)
+const PREVIEW_CONTENT_TYPES = [...DISPLAYED_CONTENT_TYPES, ContentType.Reaction];
+
+// Conversations synced, polled and streamed; blocked ones are only listed
+const ACTIVE_CONSENT_STATES = [ConsentState.Allowed, ConsentState.Unknown];
+const ALL_CONSENT_STATES = [ConsentState.Allowed, ConsentState.Unknown, ConsentState.Denied];
+
+// Content types that count as unread messages
+const UNREAD_CONTENT_TYPES = [ContentType.Text, ContentType.Reply, ContentType.Attachment, ContentType.RemoteAttachment];
+export const MAX_UNREAD_COUNT = 99;
+
+// Per-account preferences and last-read times, stored in the preferences storage (localStorage by default)
+const READ_RECEIPTS_STORAGE_KEY_PREFIX = 'xmtp-read-receipts-';
+const LAST_READ_STORAGE_KEY_PREFIX = 'xmtp-last-read-';
+
+// Utility function to safely handle ArrayBuffer operations. `onMemoryError` is told when the fallback had to be used.
+const safeArrayBufferOperation = async <T>(
+  operation: () => Promise<T> | T,
+  fallback: T,
+  onMemoryError?: (memoryError: Error) => void,
+): Promise<T> => {
+  try {
+    const result = await operation();
+    return result;
+  } catch (operationError) {
+    if (isWasmMemoryError(operationError)) {
+      console.warn('ArrayBuffer operation failed, using fallback:', operationError.message);
+      onMemoryError?.(operationError);
+      return fallback;
+    }
+    throw operationError;
+  }
+};
+
+// Utility function for sync operations
+const safeArrayBufferOperationSync = <T>(operation: () => T, fallback: T): T => {
+  try {
+    return operation();
+  } catch (operationError) {
+    if (isWasmMemoryError(operationError)) {
+      console.warn('ArrayBuffer sync operation failed, using fallback:', operationError.message);
+      return fallback;
+    }
+    throw operationError;
+  }
+};
+
+// Log an error of an XMTP operation and classify it for the caller
+const handleXMTPError = (err: unknown, context: string): XMTPServiceError => {
+  console.error(`❌ ${context}:`, err);
+  return toXMTPServiceError(err, context);
+};
+
+// Map SDK delivery status to the UI message status
+const toMessageStatus = (deliveryStatus: DecodedMessage['deliveryStatus']): XMTPMessageStatus => {
+  switch (deliveryStatus) {
+    case 'published':
+      return 'sent';
+    case 'failed':
+      return 'failed';
+    default:
+      return 'sending';
+  }
+};
+
+// Map SDK consent state to the UI consent state
+const toConsentState = (consentState: ConsentState): XMTPConsentState => {
+  switch (consentState) {
+    case ConsentState.Allowed:
+      return 'allowed';
+    case ConsentState.Denied:
+      return 'denied';
+    default:
+      return 'unknown';
+  }
+};
+
+// Most recent activity first (last message, or creation for empty conversations)
+const compareByLastActivity = (a: XMTPConversation, b: XMTPConversation): number => {
+  const aTime = a.lastMessage?.sentAt || a.createdAt;
+  const bTime = b.lastMessage?.sentAt || b.createdAt;
+  return bTime.getTime() - aTime.getTime();
+};
+
+/**
+ * Apply a reaction to the aggregated reactions of a message.
+ * Idempotent per sender and emoji, so the same reaction delivered twice is counted once.
+ */
+export const applyReaction = (
+  reactions: XMTPReactionSummary[] = [],
+  reaction: XMTPReaction,
+  senderAddress: string,
+  isOwn: boolean,
+): XMTPReactionSummary[] => {
+  const sender = normalizeAddress(senderAddress);
+  const existing = reactions.find(summary => summary.emoji === reaction.emoji);
+  const senders = new Set(existing?.senderAddresses ?? []);
+
+  if (reaction.action === 'added') {
+    senders.add(sender);
+  } else {
+    senders.delete(sender);
+  }
+
+  const updated: XMTPReactionSummary = {
+    emoji: reaction.emoji,
+    count: senders.size,
+    senderAddresses: [...senders],
+    reactedByMe: isOwn ? reaction.action === 'added' : (existing?.reactedByMe ?? false),
+  };
+
+  if (updated.count === 0) {
+    return reactions.filter(summary => summary !== existing);
+  }
+
+  // Keep the chips order stable: update in place, append new emojis
+  return existing ? reactions.map(summary => (summary === existing ? updated : summary)) : [...reactions, updated];
+};
+
+// Utility function to validate XMTP client
+const isValidXMTPClient = (client: any): boolean => {
+  return client && typeof client === 'object' && client.conversations && typeof client.conversations.list === 'function';
+};
+
+// Helper to normalize addresses
+const normalizeAddress = (address: string): string => {
+  return address.toLowerCase().trim();
+};
+
+// Exponential backoff with a little jitter so reconnecting tabs don't hit the network together
+const getReconnectDelay = (attempt: number): number => {
+  const delay = Math.min(STREAM_RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), STREAM_RECONNECT_MAX_DELAY_MS);
+  return delay + Math.floor(Math.random() * 250);
+};
+
+interface ResilientStreamOptions<T> {
+  label: string;
+  open: (callback: StreamCallback<T>) => Promise<AsyncStream<T>>;
+  onValue: (value: T) => void | Promise<void>;
+  onTransportChange: (transport: Exclude<MessageTransport, 'idle'>) => void;
+}
+
+/**
+ * Keeps an SDK stream open, reconnecting with exponential backoff.
+ * A value that fails (an undecodable message) is logged and skipped; the stream is reopened only when opening it
+ * fails or it keeps erroring (STREAM_MAX_CONSECUTIVE_ERRORS in a row).
+ * After STREAM_MAX_RECONNECT_ATTEMPTS consecutive failures the caller is switched
+ * to polling, while reconnection keeps being attempted at the maximum delay.
+ * Returns a function that closes the stream for good.
+ */
+const createResilientStream = <T>({ label, open, onValue, onTransportChange }: ResilientStreamOptions<T>): (() => void) => {
+  let stopped = false;
+  let attempt = 0;
+  let generation = 0;
+  let activeStream: AsyncStream<T> | null = null;
+  let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  const closeActiveStream = () => {
+    if (!activeStream) return;
+    try {
+      activeStream.return();
+    } catch (closeError) {
+      console.warn(`Warning while closing ${label} stream:`, closeError);
+    }
+    activeStream = null;
+  };
+
+  const scheduleReconnect = (reason: unknown) => {
+    if (stopped || reconnectTimeout) return;
+
+    closeActiveStream();
+    generation += 1;
+    attempt += 1;
+
+    if (attempt === STREAM_MAX_RECONNECT_ATTEMPTS + 1) {
+      console.warn(`⚠️ ${label} stream keeps failing, falling back to polling`);
+      onTransportChange('polling');
+    }
+
+    const delay = getReconnectDelay(attempt);
+    console.warn(`⚠️ ${label} stream failed, reconnecting in ${delay}ms (attempt ${attempt}):`, reason);
+    reconnectTimeout = setTimeout(() => {
+      reconnectTimeout = null;
+      void connect();
+    }, delay);
+  };
+
+  const connect = async () => {
+    if (stopped) return;
+
+    const currentGeneration = ++generation;
+    let consecutiveErrors = 0;
+    try {
+      const stream = await open((streamError, value) => {
+        if (stopped || currentGeneration !== generation) return;
+
+        if (streamError) {
+          consecutiveErrors += 1;
+          if (consecutiveErrors >= STREAM_MAX_CONSECUTIVE_ERRORS) {
+            scheduleReconnect(streamError);
+          } else {
+            console.warn(`⚠️ Skipping ${label} stream value that failed:`, streamError);
+          }
+          return;
+        }
+
+        consecutiveErrors = 0;
+        if (value !== undefined) {
+          Promise.resolve(onValue(value)).catch(valueError => console.warn(`Error handling ${label} stream value:`, valueError));
+        }
+      });
+
+      if (stopped || currentGeneration !== generation) {
+        stream.return();
+        return;
+      }
+
+      activeStream = stream;
+      attempt = 0;
+      onTransportChange('stream');
+      console.log(`📡 ${label} stream connected`);
+    } catch (openError) {
+      scheduleReconnect(openError);
+    }
+  };
+
+  void connect();
+
+  return () => {
+    stopped = true;
+    if (reconnectTimeout) {
+      clearTimeout(reconnectTimeout);
+      reconnectTimeout = null;
+    }
+    closeActiveStream();
+  };
+};
+
+// Events published by the service, besides state changes
+export interface XMTPServiceEvents {
+  // New message, delivered once whichever transport received it
+  message: XMTPMessage;
+  // Conversation discovered by the conversation stream or its polling fallback
+  conversation: XMTPConversation;
+}
+
+export interface XMTPServiceState {
+  client: XMTPClient | null;
+  inboxId: string | null;
+  isInitializing: boolean;
+  // The previous account's client is closed and the new account's one is being set up
+  isSwitchingAccount: boolean;
+  // Set from just before the wallet is asked for a signature until signing and the call that needed it finish
+  signatureRequest: XMTPSignatureRequest | null;
+  // Set while a client broken by a memory error is being rebuilt
+  recovery: XMTPRecoveryState | null;
+  isReady: boolean;
+  // Ordered by last activity
+  conversations: XMTPConversation[];
+  error: XMTPServiceError | null;
+  messageTransport: MessageTransport;
+  outbox: OutboxItem[];
+  readReceiptsEnabled: boolean;
+  // Reverse-resolved names by lowercase address
+  displayNames: Record<string, string>;
+  contacts: XMTPContact[];
+}
+
+const INITIAL_STATE: XMTPServiceState = {
+  client: null,
+  inboxId: null,
+  isInitializing: false,
+  isSwitchingAccount: false,
+  signatureRequest: null,
+  recovery: null,
+  isReady: false,
+  conversations: [],
+  error: null,
+  messageTransport: 'idle',
+  outbox: [],
+  readReceiptsEnabled: true,
+  displayNames: {},
+  contacts: [],
+};
+
+/**
+ * Owns the XMTP client of one wallet and everything derived from it.
+ * State is read with getState/subscribe (a new snapshot object on every change), messages and new
+ * conversations are published as events. Public methods are bound and can be passed around as callbacks.
+ */
+export class XMTPService {
+  private state: XMTPServiceState = INITIAL_STATE;
+  private readonly stateListeners = new Set<() => void>();
+  private readonly eventListeners: { [K in keyof XMTPServiceEvents]: Set<(payload: XMTPServiceEvents[K]) => void> } = {
+    message: new Set(),
+    conversation: new Set(),
+  };
+
+  private readonly attachmentStorage?: AttachmentStorage;
+  private readonly clientFactory: XMTPClientFactory;
+  private readonly config: ResolvedXMTPConfig;
+  private readonly preferencesStorage: XMTPPreferencesStorage | null;
+  private readonly outboxStorage: OutboxStorage;
+  private wallet: XMTPWallet | null = null;
+  // Resolver as passed in, and its cached wrapper
+  private nameResolverSource: NameResolver | null = null;
+  private nameResolver: NameResolver | null = null;
+  // One resolver per client: lookups are batched per tick and cached across loads and poll ticks
+  private inboxAddressResolver: InboxAddressResolver | null = null;
+
+  private recoveryTimeout: NodeJS.Timeout | null = null;
+  // Bumped by cleanupClient so a client created for a torn down session is dropped
+  private clientGeneration = 0;
+  private initializationTimeout: NodeJS.Timeout | null = null;
+
+  // Streaming and polling fallback
+  private messagePollingInterval: NodeJS.Timeout | null = null;
+  private conversationPollingInterval: NodeJS.Timeout | null = null;
+  private stopMessageStream: (() => void) | null = null;
+  private stopConversationStream: (() => void) | null = null;
+  private lastMessageTimestamp = 0;
+  private processedMessageIds = new Set<string>();
+
+  // Conversations by id; state.conversations is its ordered view
+  private conversationIndex = new Map<string, XMTPConversation>();
+  // SDK conversation handles by id, filled by list/stream/lookup so single-conversation operations skip list()
+  private conversationHandles = new Map<string, XMTPConversationHandle>();
+  // Reactions of a conversation sent since `sinceNs`, kept up to date with new messages so older pages only fetch what's missing
+  private reactionCache = new Map<string, { sinceNs: bigint; reactions: XMTPMessage[] }>();
+
+  // Offline outbox
+  private isFlushingOutbox = false;
+  private outboxRetryTimeout: NodeJS.Timeout | null = null;
+
+  // Conversations with a read receipt being sent
+  private pendingReadReceipts = new Set<string>();
+
+  // Last-read time (ms) per conversation and the conversation currently open in the UI
+  private lastReadTimes: Record<string, number> = {};
+  private activeConversationId: string | null = null;
+
+  // Addresses already looked up (or being looked up) by lookupNames
+  private requestedNames = new Set<string>();
+
+  constructor({
+    attachmentStorage,
+    nameResolver,
+    clientFactory = defaultClientFactory,
+    config,
+    preferencesStorage = typeof localStorage !== 'undefined' ? localStorage : null,
+    outboxStorage = indexedDbOutboxStorage,
+  }: XMTPServiceOptions = {}) {
+    this.attachmentStorage = attachmentStorage;
+    this.clientFactory = clientFactory;
+    this.config = resolveXMTPConfig(config);
+    this.preferencesStorage = preferencesStorage;
+    this.outboxStorage = outboxStorage;
+    this.setNameResolver(nameResolver ?? null);
+  }
+
+  // --- State and events ---
+
+  getState = (): XMTPServiceState => this.state;
+
+  /**
+   * Listen to state changes. Returns an unsubscribe function.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  };
+
+  /**
+   * Listen to a service event. Returns an unsubscribe function.
+   */
+  on = <K extends keyof XMTPServiceEvents>(event: K, listener: (payload: XMTPServiceEvents[K]) => void): (() => void) => {
+    const listeners: Set<(payload: XMTPServiceEvents[K]) => void> = this.eventListeners[event];
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  get canSendAttachments(): boolean {
+    return !!this.attachmentStorage;
+  }
+
+  private setState(update: Partial<XMTPServiceState>) {
+    this.state = { ...this.state, ...update };
+    this.stateListeners.forEach(listener => listener());
+  }
+
+  private emit<K extends keyof XMTPServiceEvents>(event: K, payload: XMTPServiceEvents[K]) {
+    const listeners: Set<(payload: XMTPServiceEvents[K]) => void> = this.eventListeners[event];
+    listeners.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (listenerError) {
+        console.warn(`Error in ${event} listener:`, listenerError);
+      }
+    });
+  }
+
+  // Normalized address of the connected wallet
+  private get accountAddress(): string | null {
+    return this.wallet ? normalizeAddress(this.wallet.address) : null;
+  }
+
+  // The client, if it is ready to be used
+  private readyClient(): XMTPClient | null {
+    const { client, isReady } = this.state;
+    return client && isReady && isValidXMTPClient(client) ? client : null;
+  }
+
+  // --- Wallet and client lifecycle ---
+
+  /**
+   * Connect the wallet, or disconnect it with null. The client is initialized as soon as a wallet is set.
+   * Switching to another account closes the previous account's client and drops its data first;
+   * switching chains keeps the client, later signatures go through the updated wallet.
+   */
+  setWallet = (wallet: XMTPWallet | null): void => {
+    const previousAddress = this.accountAddress;
+    const previousChainId = this.wallet?.chainId;
+    this.wallet = wallet;
+
+    const accountAddress = this.accountAddress;
+    if (accountAddress !== previousAddress) {
+      if (previousAddress) {
+        console.log('🔀 Account changed from', previousAddress, 'to', accountAddress ?? '(disconnected)');
+        this.closeClient();
+        this.activeConversationId = null;
+        this.setState({ error: null, recovery: null, isSwitchingAccount: !!accountAddress });
+      }
+
+      if (accountAddress) {
+        this.loadAccountData(accountAddress);
+      } else {
+        this.lastReadTimes = {};
+        this.setState({ contacts: [] });
+      }
+    } else if (wallet && previousChainId !== undefined && wallet.chainId !== previousChainId) {
+      console.log('⛓️ Chain changed to', wallet.chainId, '- keeping the client of', accountAddress);
+    }
+
+    if (wallet && !this.state.client && !this.state.isInitializing) {
+      void this.initializeClient();
+    }
+  };
+
+  /**
+   * Replace the name resolver. Names from the previous resolver are dropped and looked up again.
+   */
+  setNameResolver = (resolver: NameResolver | null): void => {
+    if (resolver === this.nameResolverSource) {
+      return;
+    }
+
+    this.nameResolverSource = resolver;
+    this.nameResolver = resolver ? createCachedNameResolver(resolver) : null;
+    this.requestedNames = new Set();
+    this.setState({ displayNames: {} });
+    this.lookupKnownNames();
+  };
+
+  // Read a stored preference; null without storage or when it can't be read (e.g. blocked storage)
+  private readPreference(key: string): string | null {
+    try {
+      return this.preferencesStorage?.getItem(key) ?? null;
+    } catch (storageError) {
+      console.warn('Failed to read preference:', key, storageError);
+      return null;
+    }
+  }
+
+  private writePreference(key: string, value: string) {
+    try {
+      this.preferencesStorage?.setItem(key, value);
+    } catch (storageError) {
+      console.warn('Failed to store preference:', key, storageError);
+    }
+  }
+
+  /**
+   * Load the last-read times, read receipts preference (on by default) and address book of an account
+   */
+  private loadAccountData(accountAddress: string) {
+    try {
+      const storedTimes = this.readPreference(`${LAST_READ_STORAGE_KEY_PREFIX}${accountAddress}`);
+      this.lastReadTimes = storedTimes ? JSON.parse(storedTimes) : {};
+    } catch (parseError) {
+      console.warn('Failed to load last-read times:', parseError);
+      this.lastReadTimes = {};
+    }
+
+    const storedPreference = this.readPreference(`${READ_RECEIPTS_STORAGE_KEY_PREFIX}${accountAddress}`);
+    this.setState({ readReceiptsEnabled: storedPreference !== 'false', contacts: [] });
+
+    listContacts(accountAddress)
+      .then(storedContacts => {
+        if (this.accountAddress === accountAddress) this.setState({ contacts: storedContacts });
+      })
+      .catch(contactsError => console.warn('Failed to load contacts:', contactsError));
+
+    this.lookupKnownNames();
+  }
+
+  /**
+   * Signer type of a wallet: the configured one, or SCW when there is contract bytecode at its address
+   */
+  private async detectSignerType(wallet: XMTPWallet): Promise<Exclude<XMTPSignerType, 'auto'>> {
+    if (this.config.signerType !== 'auto') {
+      return this.config.signerType;
+    }
+
+    if (!wallet.getCode) {
+      return 'EOA';
+    }
+
+    try {
+      const bytecode = await wallet.getCode();
+      return bytecode && bytecode !== '0x' ? 'SCW' : 'EOA';
+    } catch (codeError) {
+      console.warn('⚠️ Could not read account bytecode, signing as EOA:', codeError);
+      return 'EOA';
+    }
+  }
+
+  /**
+   * Enhanced signer with ArrayBuffer safety
+   */
+  private async createSigner(wallet: XMTPWallet): Promise<Signer> {
+    const accountIdentifier: Identifier = {
+      identifier: normalizeAddress(wallet.address),
+      identifierKind: 'Ethereum',
+    };
+
+    const signMessage = async (message: string): Promise<Uint8Array> => {
+      console.log('🔐 Signing message with wallet:', message);
+      try {
+        // The wallet is replaced on chain switches; never sign with another account's
+        if (this.accountAddress !== accountIdentifier.identifier || !this.wallet) {
+          throw new XMTPServiceError('USER_REJECTED_SIGNATURE', 'The wallet account changed, signature cancelled');
+        }
+        const signature = await this.wallet.signMessage(message);
+
+        return safeArrayBufferOperationSync(() => toBytes(signature), new Uint8Array());
+      } catch (signError) {
+        console.error('❌ Failed to sign message:', signError);
+        throw handleXMTPError(signError, 'Message signing failed');
+      }
+    };
+
+    const signerType = await this.detectSignerType(wallet);
+    console.log(`🔑 Using ${signerType} signer for`, accountIdentifier.identifier);
+
+    if (signerType === 'EOA') {
+      return { type: 'EOA', getIdentifier: () => accountIdentifier, signMessage };
+    }
+
+    // ERC-1271 signatures are verified on the chain the wallet currently uses
+    const getChainId = (): bigint => {
+      const chainId = this.wallet?.chainId;
+      if (chainId === undefined) {
+        throw new XMTPServiceError('WALLET_NOT_CONNECTED', 'Smart contract wallets need a connected chain to sign');
+      }
+      return BigInt(chainId);
+    };
+
+    // The SDK reads the block number synchronously: fetch it up front
+    let blockNumber: bigint | undefined;
+    try {
+      blockNumber = await wallet.getBlockNumber?.();
+    } catch (blockError) {
+      console.warn('⚠️ Could not read the block number, SCW signatures use the latest block:', blockError);
+    }
+
+    return {
+      type: 'SCW',
+      getIdentifier: () => accountIdentifier,
+      signMessage,
+      getChainId,
+      getBlockNumber: blockNumber !== undefined ? () => blockNumber : undefined,
+    };
+  }
+
+  /**
+   * Safe client cleanup
+   */
+  private cleanupClient() {
+    try {
+      this.clientGeneration += 1;
+
+      // Close streams and stop all polling intervals
+      this.stopMessageStream?.();
+      this.stopMessageStream = null;
+      this.stopConversationStream?.();
+      this.stopConversationStream = null;
+
+      if (this.messagePollingInterval) {
+        clearInterval(this.messagePollingInterval);
+        this.messagePollingInterval = null;
+      }
+
+      if (this.conversationPollingInterval) {
+        clearInterval(this.conversationPollingInterval);
+        this.conversationPollingInterval = null;
+      }
+
+      if (this.initializationTimeout) {
+        clearTimeout(this.initializationTimeout);
+        this.initializationTimeout = null;
+      }
+
+      if (this.outboxRetryTimeout) {
+        clearTimeout(this.outboxRetryTimeout);
+        this.outboxRetryTimeout = null;
+      }
+
+      if (this.recoveryTimeout) {
+        clearTimeout(this.recoveryTimeout);
+        this.recoveryTimeout = null;
+      }
+      // A pending rebuild goes away with the client; only a rebuild in progress keeps reporting its progress
+      const recovery = this.state.recovery?.status === 'rebuilding' ? this.state.recovery : null;
+
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('online', this.handleOnline);
+      }
+
+      // Reset session data
+      this.inboxAddressResolver = null;
+      this.conversationIndex = new Map();
+      this.conversationHandles = new Map();
+      this.reactionCache = new Map();
+      this.lastMessageTimestamp = 0;
+      this.processedMessageIds = new Set();
+      this.pendingReadReceipts = new Set();
+
+      this.setState({
+        client: null,
+        inboxId: null,
+        isReady: false,
+        messageTransport: 'idle',
+        conversations: [],
+        outbox: [],
+        isInitializing: false,
+        recovery,
+      });
+
+      console.log('🧹 Client cleanup completed');
+    } catch (cleanupError) {
+      console.warn('Warning during client cleanup:', cleanupError);
+    }
+  }
+
+  /**
+   * Clean up and close the SDK client, releasing its worker and database
+   */
+  private closeClient() {
+    const client = this.state.client;
+    this.cleanupClient();
+
+    if (client) {
+      try {
+        client.close();
+        console.log('🔒 XMTP client closed');
+      } catch (closeError) {
+        console.warn('Warning while closing XMTP client:', closeError);
+      }
+    }
+  }
+
+  /**
+   * Stop streams and polling and close the client. The service can be initialized again afterwards.
+   */
+  dispose = (): void => {
+    this.closeClient();
+    this.setState({ recovery: null });
+  };
+
+  /**
+   * Enhanced client initialization with better error handling
+   */
+  initializeClient = async (): Promise<void> => {
+    const wallet = this.wallet;
+    if (!wallet || this.state.isInitializing) {
+      return;
+    }
+
+    this.cleanupClient();
+    const generation = this.clientGeneration;
+
+    // Mark initialization in progress
+    this.setState({ isInitializing: true, error: null });
+
+    try {
+      console.log('🔌 Initializing XMTP client with address:', wallet.address);
+
+      this.initializationTimeout = setTimeout(() => {
+        if (this.state.isInitializing) {
+          this.setState({ error: new XMTPTimeoutError('Initialization timeout. Please try again.'), isInitializing: false });
+        }
+      }, 60000);
+
+      const clientOptions: XMTPClientOptions = {
+        env: this.config.env,
+        apiUrl: this.config.apiUrl,
+        codecs: [...createClientCodecs(), ...this.config.codecs],
+        dbPath: getXMTPDbPath(this.config, wallet.address),
+        structuredLogging: true,
+        loggingLevel: this.config.loggingLevel,
+      };
+
+      console.log('📋 Creating XMTP client with options:', clientOptions);
+
+      const xmtpClient = await safeArrayBufferOperation(async () => await this.buildOrCreateClient(wallet, clientOptions), null);
+
+      if (!xmtpClient) {
+        throw new XMTPWasmMemoryError('Failed to create XMTP client due to ArrayBuffer issues');
+      }
+
+      console.log('✅ XMTP client created successfully');
+
+      // Immediate sync after creation
+      try {
+        console.log('🔄 Initial sync after client creation...');
+        await safeArrayBufferOperation(async () => await xmtpClient.conversations.syncAll(ACTIVE_CONSENT_STATES), undefined);
+        console.log('✅ Initial sync completed');
+      } catch (syncError) {
+        console.warn('⚠️ Initial sync failed, but continuing:', syncError);
+      }
+
+      if (generation !== this.clientGeneration) {
+        console.log('🧹 Session was torn down during initialization, closing its client');
+        xmtpClient.close();
+        return;
+      }
+
+      // No safeArrayBufferOperation fallback here, an empty result would be cached as "no address"
+      this.inboxAddressResolver = createInboxAddressResolver(inboxIds => xmtpClient.preferences.inboxStateFromInboxIds(inboxIds, true));
+
+      const userInboxId = xmtpClient.inboxId;
+      this.setState({ client: xmtpClient, inboxId: userInboxId || null, isReady: true, recovery: null });
+
+      if (typeof window !== 'undefined') {
+        window.addEventListener('online', this.handleOnline);
+      }
+      void this.restoreOutbox(normalizeAddress(wallet.address));
+
+      console.log('✅ XMTP client ready with inbox ID:', userInboxId);
+    } catch (initError) {
+      if (generation !== this.clientGeneration) {
+        return;
+      }
+
+      const initServiceError = handleXMTPError(initError, 'XMTP client initialization failed');
+      // A broken client is rebuilt by itself; during a rebuild other transient failures are retried too
+      if (initServiceError.code === 'WASM_MEMORY' || (this.state.recovery && initServiceError.retryable)) {
+        this.scheduleRecovery(initServiceError);
+      } else {
+        this.setState({ error: initServiceError, recovery: null });
+      }
+    } finally {
+      if (generation === this.clientGeneration) {
+        this.setState({ isInitializing: false, isSwitchingAccount: false });
+        if (this.initializationTimeout) {
+          clearTimeout(this.initializationTimeout);
+          this.initializationTimeout = null;
+        }
+      }
+    }
+  };
+
+  /**
+   * Open the installation stored in the local database when it is registered, so page loads don't prompt the wallet.
+   * Otherwise create the client, which asks for a signature to create the identity or to authorize this installation.
+   */
+  private async buildOrCreateClient(wallet: XMTPWallet, options: XMTPClientOptions): Promise<XMTPClient> {
+    const identifier: Identifier = { identifier: normalizeAddress(wallet.address), identifierKind: 'Ethereum' };
+
+    if (this.clientFactory.build) {
+      try {
+        const builtClient = await this.clientFactory.build(identifier, options);
+        if (await builtClient.isRegistered()) {
+          console.log('♻️ Reusing the registered installation from the local database');
+          return builtClient;
+        }
+
+        console.log('🆕 No registered installation in the local database');
+        builtClient.close();
+      } catch (buildError) {
+        console.warn('⚠️ Could not build the client from the local database, creating it:', buildError);
+      }
+    }
+
+    // An account already on the network only needs this installation authorized
+    let hasIdentity = false;
+    try {
+      const canMessageResult = await this.clientFactory.canMessage([identifier], this.config.env);
+      hasIdentity = !!canMessageResult.get(identifier.identifier);
+    } catch (identityError) {
+      console.warn('⚠️ Could not check whether the account is registered:', identityError);
+    }
+
+    return this.withSignatureRequest(hasIdentity ? 'authorize_installation' : 'create_identity', async () => {
+      const signer = await this.createSigner(wallet);
+      return this.clientFactory.create(signer, options);
+    });
+  }
+
+  /**
+   * Publish what the wallet is about to be asked to sign before `operation` reaches the SDK,
+   * so the UI explains it ahead of the wallet popup. Cleared once the operation settles.
+   */
+  private async withSignatureRequest<T>(signatureRequest: XMTPSignatureRequest, operation: () => Promise<T>): Promise<T> {
+    this.setState({ signatureRequest });
+    try {
+      return await operation();
+    } finally {
+      this.setState({ signatureRequest: null });
+    }
+  }
+
+  // --- Recovery ---
+
+  /**
+   * Run an SDK call of the current client, returning `fallback` if the WASM bindings lost their memory.
+   * The broken client is then rebuilt in the background.
+   */
+  private safeOperation<T>(operation: () => Promise<T> | T, fallback: T): Promise<T> {
+    const generation = this.clientGeneration;
+    return safeArrayBufferOperation(operation, fallback, memoryError => {
+      // Late failures of a client already torn down don't concern the current one
+      if (generation === this.clientGeneration) {
+        this.scheduleRecovery(toXMTPServiceError(memoryError));
+      }
+    });
+  }
+
+  /**
+   * Rebuild the client after the backoff delay of the next attempt.
+   * Once the attempts are exhausted the error is reported and the user can restart the client or reload the page.
+   */
+  private scheduleRecovery(reason: XMTPServiceError) {
+    if (!this.wallet || this.recoveryTimeout || this.state.recovery?.status === 'rebuilding') {
+      return;
+    }
+
+    const attempt = (this.state.recovery?.attempt ?? 0) + 1;
+    if (attempt > MAX_CLIENT_RECOVERY_ATTEMPTS) {
+      console.error('❌ XMTP client could not be rebuilt, giving up');
+      this.setState({
+        recovery: null,
+        error: new XMTPWasmMemoryError('The XMTP client could not be restarted. Please reload the page.', {
+          cause: reason,
+          retryable: false,
+        }),
+      });
+      return;
+    }
+
+    const delay = getReconnectDelay(attempt);
+    console.warn(`🩹 XMTP client broken, rebuilding in ${delay}ms (attempt ${attempt}/${MAX_CLIENT_RECOVERY_ATTEMPTS}):`, reason);
+    this.setState({
+      recovery: { attempt, maxAttempts: MAX_CLIENT_RECOVERY_ATTEMPTS, status: 'waiting', nextAttemptAt: Date.now() + delay, reason },
+    });
+
+    this.recoveryTimeout = setTimeout(() => {
+      this.recoveryTimeout = null;
+      void this.rebuildClient();
+    }, delay);
+  }
+
+  /**
+   * Dispose the broken client and build a new one from the local database, then reload conversations and reopen the streams
+   * that still have listeners
+   */
+  private async rebuildClient() {
+    const recovery = this.state.recovery;
+    if (!recovery || !this.wallet) {
+      this.setState({ recovery: null });
+      return;
+    }
+
+    this.setState({ recovery: { ...recovery, status: 'rebuilding', nextAttemptAt: null } });
+    const hadConversations = this.conversationIndex.size > 0;
+
+    this.closeClient();
+    await this.initializeClient();
+
+    const client = this.readyClient();
+    if (!client) {
+      // Still set unless the attempt failed for good and reported its error
+      if (this.state.recovery?.status === 'rebuilding') {
+        this.setState({ recovery: { ...recovery, status: 'waiting' } });
+        this.scheduleRecovery(recovery.reason);
+      }
+      return;
+    }
+
+    console.log(`✅ XMTP client rebuilt after ${recovery.attempt} attempt(s)`);
+
+    if (hadConversations) {
+      await this.loadConversations();
+    }
+    if (this.eventListeners.message.size > 0) {
+      this.openMessageStream(client);
+    }
+    if (this.eventListeners.conversation.size > 0) {
+      this.openConversationStream(client);
+    }
+  }
+
+  // --- Formatting ---
+
+  /**
+   * Helper to get Ethereum address from inboxId
+   */
+  private async getEthereumAddressFromInboxId(inboxIdTemp: string): Promise<string | null> {
+    if (!this.inboxAddressResolver || !this.state.isReady) return null;
+
+    return this.inboxAddressResolver.resolve(inboxIdTemp);
+  }
+
+  /**
+   * Decode message content into a renderable form, resolving GroupUpdated inbox IDs
+   */
+  private async formatMessageContent(
+    message: DecodedMessage<ClientContentTypes>,
+  ): Promise<Pick<XMTPMessage, 'content' | 'contentType' | 'groupUpdate' | 'reaction' | 'replyTo' | 'attachment'>> {
+    if (ContentTypeGroupUpdated.sameAs(message.contentType)) {
+      const update = message.content as GroupUpdated | undefined;
+      if (!update) {
+        return { content: '[Group updated]', contentType: 'group_updated' };
+      }
+
+      const resolveInboxId = async (memberInboxId: string) =>
+        (await this.getEthereumAddressFromInboxId(memberInboxId)) || memberInboxId;
+
+      const [initiatedBy, addedMembers, removedMembers] = await Promise.all([
+        resolveInboxId(update.initiatedByInboxId),
+        Promise.all(update.addedInboxes.map(inbox => resolveInboxId(inbox.inboxId))),
+        Promise.all(update.removedInboxes.map(inbox => resolveInboxId(inbox.inboxId))),
+      ]);
+
+      return {
+        content: message.fallback || '[Group updated]',
+        contentType: 'group_updated',
+        groupUpdate: {
+          initiatedBy,
+          addedMembers,
+          removedMembers,
+          metadataChanges: update.metadataFieldChanges.map(change => ({
+            field: change.fieldName,
+            oldValue: change.oldValue,
+            newValue: change.newValue,
+          })),
+        },
+      };
+    }
+
+    if (ContentTypeReaction.sameAs(message.contentType)) {
+      const reaction = message.content as Reaction | undefined;
+      if (!reaction) {
+        return { content: message.fallback || '[Reaction]', contentType: 'reaction' };
+      }
+
+      return {
+        content: `${reaction.action === 'added' ? 'Reacted' : 'Removed reaction'} ${reaction.content}`,
+        contentType: 'reaction',
+        reaction: { reference: reaction.reference, emoji: reaction.content, action: reaction.action },
+      };
+    }
+
+    if (ContentTypeRemoteAttachment.sameAs(message.contentType)) {
+      const remoteAttachment = message.content as RemoteAttachment | undefined;
+      if (!remoteAttachment) {
+        return { content: message.fallback || '[Attachment]', contentType: 'unknown' };
+      }
+
+      return {
+        content: remoteAttachment.filename,
+        contentType: 'attachment',
+        attachment: {
+          filename: remoteAttachment.filename,
+          contentLength: remoteAttachment.contentLength,
+          remote: remoteAttachment,
+        },
+      };
+    }
+
+    if (ContentTypeAttachment.sameAs(message.contentType)) {
+      const attachment = message.content as Attachment | undefined;
+      if (!attachment) {
+        return { content: message.fallback || '[Attachment]', contentType: 'unknown' };
+      }
+
+      return {
+        content: attachment.filename,
+        contentType: 'attachment',
+        attachment: {
+          filename: attachment.filename,
+          mimeType: attachment.mimeType,
+          contentLength: attachment.data.byteLength,
+          data: attachment.data,
+        },
+      };
+    }
+
+    if (ContentTypeReadReceipt.sameAs(message.contentType)) {
+      return { content: '', contentType: 'read_receipt' };
+    }
+
+    if (ContentTypeReply.sameAs(message.contentType)) {
+      const reply = message.content as Reply | undefined;
+      if (reply && typeof reply.content === 'string') {
+        return { content: reply.content, contentType: 'text', replyTo: reply.reference };
+      }
+
+      return { content: message.fallback || '[Unsupported Content]', contentType: 'unknown', replyTo: reply?.reference };
+    }
+
+    if (typeof message.content === 'string') {
+      return { content: message.content, contentType: 'text' };
+    }
+
+    return { content: message.fallback || '[Unsupported Content]', contentType: 'unknown' };
+  }
+
+  /**
+   * Format an SDK conversation with its peer and last message
+   */
+  private async formatConversation(convo: XMTPConversationHandle): Promise<XMTPConversation> {
+    let kind: XMTPConversationKind = 'dm';
+    let peerAddress = 'Unknown';
+    let peerInboxId: string | undefined;
+    let lastMessage: XMTPConversation['lastMessage'] = undefined;
+    let groupMetadata: Pick<XMTPConversation, 'name' | 'description' | 'imageUrl' | 'memberInboxIds'> = {};
+
+    try {
+      if (isDmHandle(convo)) {
+        peerInboxId = (await this.safeOperation(async () => await convo.peerInboxId(), null)) ?? undefined;
+        console.log(`👤 Peer inbox ID for conversation ${convo.id}: ${peerInboxId}`);
+
+        if (peerInboxId) {
+          const ethAddress = await this.getEthereumAddressFromInboxId(peerInboxId);
+          if (ethAddress) {
+            peerAddress = ethAddress;
+            console.log(`👤 Resolved peer address: ${peerAddress}`);
+          } else {
+            peerAddress = peerInboxId;
+          }
+        }
+      } else if (isGroupHandle(convo)) {
+        kind = 'group';
+        peerAddress = convo.name || 'Group Chat';
+
+        const members = await this.safeOperation(async () => await convo.members(), []);
+        groupMetadata = {
+          name: convo.name || undefined,
+          description: convo.description || undefined,
+          imageUrl: convo.imageUrl || undefined,
+          memberInboxIds: members.map(member => member.inboxId),
+        };
+      }
+    } catch (inboxErr) {
+      console.warn('Could not get peer info for conversation:', convo.id, inboxErr);
+    }
+
+    try {
+      const messages = await this.safeOperation(
+        async () => await convo.messages({ limit: BigInt(5), direction: 1, contentTypes: PREVIEW_CONTENT_TYPES }),
+        [],
+      );
+
+      console.log(`📨 Found ${messages.length} messages in conversation ${convo.id}`);
+
+      if (messages.length > 0) {
+        const recentMessage = messages[0];
+        const senderAddress = await this.getEthereumAddressFromInboxId(recentMessage.senderInboxId || '');
+
+        lastMessage = {
+          ...(await this.formatMessageContent(recentMessage)),
+          sentAt: new Date(Number(recentMessage.sentAtNs) / 1_000_000),
+          senderAddress: senderAddress || recentMessage.senderInboxId || 'Unknown',
+        };
+
+        console.log(`📨 Last message in ${convo.id}:`, lastMessage);
+      }
+    } catch (msgErr) {
+      console.warn('Could not load messages for conversation:', convo.id, msgErr);
+    }
+
+    let consentState = ConsentState.Unknown;
+    try {
+      consentState = await this.safeOperation(async () => await convo.consentState(), ConsentState.Unknown);
+    } catch (consentErr) {
+      console.warn('Could not get consent state for conversation:', convo.id, consentErr);
+    }
+
+    // The open conversation is always read
+    let unreadCount = 0;
+    if (convo.id !== this.activeConversationId) {
+      try {
+        const lastReadAt = this.getOwnLastReadTime(convo.id);
+        const unreadMessages = await this.safeOperation(
+          async () =>
+            await convo.messages({
+              sentAfterNs: BigInt(lastReadAt) * BigInt(1_000_000),
+              contentTypes: UNREAD_CONTENT_TYPES,
+              limit: BigInt(MAX_UNREAD_COUNT + 1),
+            }),
+          [],
+        );
+        unreadCount = unreadMessages.filter(message => message.senderInboxId !== this.state.inboxId).length;
+      } catch (unreadErr) {
+        console.warn('Could not count unread messages for conversation:', convo.id, unreadErr);
+      }
+    }
+
+    return {
+      id: convo.id,
+      kind,
+      peerAddress,
+      peerInboxId,
+      createdAt: convo.createdAt || new Date(),
+      lastMessage,
+      ...groupMetadata,
+      unreadCount,
+      consentState: toConsentState(consentState),
+    };
+  }
+
+  /**
+   * Format an SDK message for the UI
+   */
+  private async formatMessage(message: DecodedMessage<ClientContentTypes>): Promise<XMTPMessage> {
+    const messageTimestamp = Number(message.sentAtNs) / 1_000_000;
+    const senderAddress = await this.getEthereumAddressFromInboxId(message.senderInboxId || '');
+
+    return {
+      id: message.id || `msg-${message.conversationId}-${messageTimestamp}`,
+      ...(await this.formatMessageContent(message)),
+      senderAddress: senderAddress || message.senderInboxId || 'Unknown',
+      sentAt: new Date(messageTimestamp),
+      conversationId: message.conversationId || '',
+      status: toMessageStatus(message.deliveryStatus),
+    };
+  }
+
+  // --- Conversation index ---
+
+  /**
+   * Keep SDK conversation handles for later lookups
+   */
+  private registerConversationHandles(convos: XMTPConversationHandle[]) {
+    convos.forEach(convo => this.conversationHandles.set(convo.id, convo));
+  }
+
+  /**
+   * Find a conversation by id: handle registry first, then the local database,
+   * then a sync of the conversation list for conversations we haven't seen yet
+   */
+  private async findConversation(conversationId: string): Promise<XMTPConversationHandle> {
+    const client = this.readyClient();
+    if (!client) {
+      throw new XMTPServiceError('CLIENT_NOT_READY', 'Client not ready');
+    }
+
+    const registeredConversation = this.conversationHandles.get(conversationId);
+    if (registeredConversation) {
+      return registeredConversation;
+    }
+
+    const lookup = () => this.safeOperation(async () => await client.conversations.getConversationById(conversationId), undefined);
+
+    let conversation = await lookup();
+    if (!conversation) {
+      console.log('🔄 Conversation not in local database, syncing conversation list:', conversationId);
+      await this.safeOperation(async () => await client.conversations.sync(), undefined);
+      conversation = await lookup();
+    }
+
+    if (!conversation) {
+      throw new XMTPServiceError('NOT_FOUND', 'Conversation not found. It may have been deleted or is not synchronized.');
+    }
+
+    this.registerConversationHandles([conversation]);
+    return conversation;
+  }
+
+  /**
+   * Publish the conversation index, ordered by last activity
+   */
+  private commitConversationIndex() {
+    this.setState({ conversations: Array.from(this.conversationIndex.values()).sort(compareByLastActivity) });
+    this.lookupKnownNames();
+  }
+
+  /**
+   * Update one indexed conversation in place (no-op if it is not indexed)
+   */
+  private updateIndexedConversation(conversationId: string, update: (conversation: XMTPConversation) => XMTPConversation) {
+    const conversation = this.conversationIndex.get(conversationId);
+    if (!conversation) return;
+
+    this.conversationIndex.set(conversationId, update(conversation));
+    this.commitConversationIndex();
+  }
+
+  /**
+   * Add or replace indexed conversations
+   */
+  private upsertConversations(updatedConversations: XMTPConversation[]) {
+    updatedConversations.forEach(conversation => this.conversationIndex.set(conversation.id, conversation));
+    this.commitConversationIndex();
+  }
+
+  /**
+   * Re-read a single conversation (peer, metadata, last message, unread count) into the index
+   */
+  refreshConversation = async (conversationId: string): Promise<XMTPConversation | null> => {
+    if (!this.readyClient()) {
+      return null;
+    }
+
+    try {
+      const convo = await this.findConversation(conversationId);
+      const formattedConversation = await this.formatConversation(convo);
+      this.upsertConversations([formattedConversation]);
+      return formattedConversation;
+    } catch (refreshError) {
+      console.warn('Failed to refresh conversation:', conversationId, refreshError);
+      return null;
+    }
+  };
+
+  /**
+   * Sync a single conversation with the network and refresh its entry in the index
+   */
+  syncConversation = async (conversationId: string): Promise<void> => {
+    const conversation = await this.findConversation(conversationId);
+    await this.safeOperation(async () => await conversation.sync(), undefined);
+    await this.refreshConversation(conversationId);
+  };
+
+  /**
+   * Fold a new message into the index: update the preview of known conversations, fetch unknown ones
+   */
+  private applyMessageToIndex(message: XMTPMessage) {
+    if (message.contentType === 'read_receipt') {
+      return;
+    }
+
+    // Group updates can change the name, description and members
+    if (!this.conversationIndex.has(message.conversationId) || message.contentType === 'group_updated') {
+      void this.refreshConversation(message.conversationId);
+      return;
+    }
+
+    this.updateIndexedConversation(message.conversationId, conversation => {
+      if (conversation.lastMessage && conversation.lastMessage.sentAt > message.sentAt) {
+        return conversation;
+      }
+
+      return {
+        ...conversation,
+        lastMessage: {
+          content: message.content,
+          contentType: message.contentType,
+          groupUpdate: message.groupUpdate,
+          reaction: message.reaction,
+          sentAt: message.sentAt,
+          senderAddress: message.senderAddress,
+        },
+      };
+    });
+  }
+
+  /**
+   * Full reload of the conversation list (initial load and explicit refresh).
+   * Afterwards the index is kept current by message and conversation events.
+   */
+  loadConversations = async (): Promise<void> => {
+    const client = this.readyClient();
+    if (!client) {
+      console.warn('Client not ready or invalid for loading conversations');
+      return;
+    }
+
+    try {
+      console.log('📋 Loading XMTP conversations...');
+
+      // Sync before loading
+      try {
+        await this.safeOperation(async () => await client.conversations.syncAll(ACTIVE_CONSENT_STATES), undefined);
+        console.log('🔄 Sync completed before loading conversations');
+      } catch (syncError) {
+        console.warn('⚠️ Sync failed before loading, continuing anyway:', syncError);
+      }
+
+      let convos;
+      try {
+        convos = await client.conversations.list({ consentStates: ALL_CONSENT_STATES });
+        if (!convos || !Array.isArray(convos)) {
+          console.warn('No conversations found or invalid response');
+          convos = [];
+        }
+      } catch (listError) {
+        console.error('Error listing conversations:', listError);
+        try {
+          convos = await this.safeOperation(
+            async () => await client.conversations.list({ consentStates: ALL_CONSENT_STATES }),
+            [],
+          );
+          if (!convos || !Array.isArray(convos)) {
+            convos = [];
+          }
+        } catch (fallbackError) {
+          console.error('Fallback also failed:', fallbackError);
+          convos = [];
+        }
+      }
+
+      console.log(`📋 Found ${convos.length} conversations`);
+      this.conversationHandles = new Map(convos.map(convo => [convo.id, convo]));
+
+      const formattedConversations: XMTPConversation[] = await Promise.all(
+        convos.map(async (convo, index) => {
+          console.log(`📋 Processing conversation ${index + 1}/${convos.length}: ${convo.id}`);
+          return this.formatConversation(convo);
+        }),
+      );
+
+      this.conversationIndex = new Map(formattedConversations.map(conversation => [conversation.id, conversation]));
+      this.commitConversationIndex();
+      console.log(`✅ Loaded ${formattedConversations.length} conversations`);
+    } catch (loadError) {
+      this.setState({ error: handleXMTPError(loadError, 'Failed to load conversations') });
+    }
+  };
+
+  // --- Unread counts ---
+
+  /**
+   * Update the unread count of a conversation in the current list
+   */
+  private updateUnreadCount(conversationId: string, update: (unreadCount: number) => number) {
+    this.updateIndexedConversation(conversationId, conversation => ({ ...conversation, unreadCount: update(conversation.unreadCount) }));
+  }
+
+  /**
+   * Last-read time of a conversation. A conversation seen for the first time (new account, new browser profile)
+   * starts read as of now, so its history doesn't count as unread.
+   */
+  private getOwnLastReadTime(conversationId: string): number {
+    const lastReadAt = this.lastReadTimes[conversationId];
+    if (lastReadAt !== undefined) {
+      return lastReadAt;
+    }
+
+    const now = Date.now();
+    this.setLastReadTime(conversationId, now);
+    return now;
+  }
+
+  private setLastReadTime(conversationId: string, lastReadAt: number) {
+    this.lastReadTimes = { ...this.lastReadTimes, [conversationId]: lastReadAt };
+    if (this.accountAddress) {
+      this.writePreference(`${LAST_READ_STORAGE_KEY_PREFIX}${this.accountAddress}`, JSON.stringify(this.lastReadTimes));
+    }
+  }
+
+  /**
+   * Mark a conversation as read up to now and persist its last-read time
+   */
+  markConversationRead = (conversationId: string): void => {
+    this.setLastReadTime(conversationId, Date.now());
+    this.updateUnreadCount(conversationId, () => 0);
+  };
+
+  /**
+   * Tell the service which conversation is open. It stays read while open, and is marked read again when left.
+   */
+  setActiveConversation = (conversationId: string | null): void => {
+    const previousConversationId = this.activeConversationId;
+    this.activeConversationId = conversationId;
+
+    if (previousConversationId && previousConversationId !== conversationId) {
+      this.markConversationRead(previousConversationId);
+    }
+    if (conversationId) {
+      this.markConversationRead(conversationId);
+    }
+  };
+
+  // --- Incoming messages ---
+
+  /**
+   * Forward a new message to the listeners once, whichever transport delivered it
+   */
+  private async deliverNewMessage(message: DecodedMessage<ClientContentTypes>): Promise<void> {
+    const formattedMessage = await this.formatMessage(message);
+    if (this.processedMessageIds.has(formattedMessage.id)) {
+      return;
+    }
+
+    // Mark message as processed
+    this.processedMessageIds.add(formattedMessage.id);
+    this.lastMessageTimestamp = Math.max(this.lastMessageTimestamp, formattedMessage.sentAt.getTime());
+
+    this.applyMessageToIndex(formattedMessage);
+    const cachedReactions = this.reactionCache.get(formattedMessage.conversationId)?.reactions;
+    if (formattedMessage.contentType === 'reaction' && !cachedReactions?.some(reaction => reaction.id === formattedMessage.id)) {
+      cachedReactions?.push(formattedMessage);
+    }
+
+    // Messages from others are unread unless their conversation is open
+    const isUnreadCandidate = formattedMessage.contentType === 'text' || formattedMessage.contentType === 'attachment';
+    if (isUnreadCandidate && message.senderInboxId !== this.state.inboxId) {
+      if (formattedMessage.conversationId === this.activeConversationId) {
+        this.markConversationRead(formattedMessage.conversationId);
+      } else {
+        this.updateUnreadCount(formattedMessage.conversationId, count => count + 1);
+      }
+    }
+
+    this.emit('message', formattedMessage);
+  }
+
+  /**
+   * Message polling - fallback used when the message stream is unavailable
+   */
+  private pollForNewMessages = async (): Promise<void> => {
+    const client = this.readyClient();
+    if (!client) {
+      console.warn('Client not ready or invalid for message polling');
+      return;
+    }
+
+    try {
+      // Sync before polling to make sure we have the latest messages
+      try {
+        await this.safeOperation(async () => await client.conversations.syncAll(ACTIVE_CONSENT_STATES), undefined);
+      } catch (syncError) {
+        console.warn('⚠️ Sync failed during polling, continuing anyway:', syncError);
+      }
+
+      let conversationsList;
+      try {
+        conversationsList = await client.conversations.list({ consentStates: ACTIVE_CONSENT_STATES });
+        if (!conversationsList || !Array.isArray(conversationsList)) {
+          console.warn('No conversations found for polling');
+          conversationsList = [];
+        }
+      } catch (listError) {
+        console.error('Error listing conversations during polling:', listError);
+        try {
+          conversationsList = await this.safeOperation(
+            async () => await client.conversations.list({ consentStates: ACTIVE_CONSENT_STATES }),
+            [],
+          );
+          if (!conversationsList || !Array.isArray(conversationsList)) {
+            conversationsList = [];
+          }
+        } catch (fallbackError) {
+          console.error('Polling fallback also failed:', fallbackError);
+          conversationsList = [];
+        }
+      }
+
+      const pollingSince = this.lastMessageTimestamp;
+
+      for (const conversation of conversationsList) {
+        try {
+          const messages = await this.safeOperation(
+            async () =>
+              await conversation.messages({
+                limit: BigInt(20),
+                direction: 1,
+              }),
+            [],
+          );
+
+          for (const message of messages) {
+            const messageTimestamp = Number(message.sentAtNs) / 1_000_000;
+
+            if (messageTimestamp > pollingSince) {
+              console.log('📨 New message found via polling:', message.id);
+              await this.deliverNewMessage(message);
+            }
+          }
+        } catch (convErr) {
+          console.warn('Warning checking conversation messages:', convErr);
+        }
+      }
+    } catch (pollingError) {
+      const pollingServiceError = handleXMTPError(pollingError, 'Error during message polling');
+      if (pollingServiceError.code === 'WASM_MEMORY') {
+        console.error('ArrayBuffer error in polling, rebuilding the client...');
+        this.stopMessagePolling();
+        this.scheduleRecovery(pollingServiceError);
+      }
+    }
+  };
+
+  /**
+   * Whether each address can receive XMTP messages, keyed by lowercase address.
+   * All addresses are checked in one request; they are all reported unreachable without a wallet or when the check fails.
+   */
+  canMessage = async (addresses: string[]): Promise<Map<string, boolean>> => {
+    const normalizedAddresses = [...new Set(addresses.map(normalizeAddress))];
+    const unreachable = () => new Map(normalizedAddresses.map(address => [address, false]));
+
+    if (!this.wallet) {
+      console.error('❌ Wallet not connected, cannot check message capability');
+      return unreachable();
+    }
+
+    if (normalizedAddresses.length === 0) {
+      return new Map();
+    }
+
+    try {
+      console.log('🔍 Checking if addresses can message:', normalizedAddresses);
+      const identifiers: Identifier[] = normalizedAddresses.map(address => ({ identifier: address, identifierKind: 'Ethereum' }));
+      const canMessageResult = await this.clientFactory.canMessage(identifiers, this.config.env);
+
+      return new Map(normalizedAddresses.map(address => [address, !!canMessageResult.get(address)]));
+    } catch (checkError) {
+      console.error('❌ Failed to check message capability:', checkError);
+      return unreachable();
+    }
+  };
+
+  // --- Names ---
+
+  /**
+   * Resolve a name (e.g. `alice.eth`) to a lowercase address, or null if it doesn't resolve
+   */
+  resolveName = async (name: string): Promise<string | null> => {
+    if (!this.nameResolver) {
+      console.warn('⚠️ No name resolver available');
+      return null;
+    }
+
+    const resolvedAddress = await this.nameResolver.resolveName(name);
+    console.log('🏷️ Resolved name:', name, '->', resolvedAddress);
+    return resolvedAddress ? normalizeAddress(resolvedAddress) : null;
+  };
+
+  /**
+   * Reverse-resolve addresses into displayNames. Each address is only looked up once per resolver.
+   */
+  lookupNames = (addresses: string[]): void => {
+    const resolver = this.nameResolver;
+    if (!resolver) {
+      return;
+    }
+
+    const requestedNames = this.requestedNames;
+    const pendingAddresses = Array.from(new Set(addresses.map(normalizeAddress))).filter(
+      candidate => /^0x[0-9a-f]{40}$/.test(candidate) && !requestedNames.has(candidate),
+    );
+
+    pendingAddresses.forEach(async candidate => {
+      requestedNames.add(candidate);
+      try {
+        const name = await resolver.lookupAddress(candidate);
+        // Ignore results of a replaced resolver
+        if (name && resolver === this.nameResolver && this.state.displayNames[candidate] !== name) {
+          this.setState({ displayNames: { ...this.state.displayNames, [candidate]: name } });
+        }
+      } catch (lookupError) {
+        // Allow a later retry
+        requestedNames.delete(candidate);
+        console.warn('⚠️ Failed to look up name for', candidate, lookupError);
+      }
+    });
+  };
+
+  /**
+   * Look up names for the connected account and DM peers (groups and unresolved peers are skipped)
+   */
+  private lookupKnownNames() {
+    const peerAddresses = this.state.conversations.map(conversation => conversation.peerAddress);
+    this.lookupNames(this.accountAddress ? [this.accountAddress, ...peerAddresses] : peerAddresses);
+  }
+
+  /**
+   * Whether a resolved sender (address, or inbox ID when unresolved) is the current user
+   */
+  private isOwnSender(senderAddress: string): boolean {
+    const sender = normalizeAddress(senderAddress);
+    const { inboxId } = this.state;
+    return sender === this.accountAddress || (!!inboxId && sender === normalizeAddress(inboxId));
+  }
+
+  // --- Sending ---
+
+  /**
+   * Store a message locally without publishing it (optimistic send).
+   * Pass `replyTo` to send it as a reply to another message.
+   * The returned message has the SDK id and a `sending` status.
+   */
+  prepareMessage = async (conversationId: string, content: string, replyTo?: string): Promise<XMTPMessage> => {
+    if (!content.trim()) {
+      throw new XMTPServiceError('INVALID_INPUT', 'Message content cannot be empty');
+    }
+
+    try {
+      const conversation = await this.findConversation(conversationId);
+      let messageId: string;
+      if (replyTo) {
+        const reply: Reply = {
+          reference: replyTo,
+          content: content.trim(),
+          contentType: ContentTypeText,
+        };
+        messageId = await conversation.sendOptimistic(reply, ContentTypeReply);
+      } else {
+        messageId = await conversation.sendOptimistic(content.trim());
+      }
+
+      console.log('📝 Message prepared optimistically:', messageId);
+
+      const preparedMessage: XMTPMessage = {
+        id: messageId,
+        content: content.trim(),
+        contentType: 'text',
+        replyTo,
+        senderAddress: this.accountAddress ?? this.state.inboxId ?? '',
+        sentAt: new Date(),
+        conversationId,
+        status: 'sending',
+      };
+      this.applyMessageToIndex(preparedMessage);
+      return preparedMessage;
+    } catch (prepareError) {
+      console.error('❌ Failed to prepare message:', prepareError);
+      throw handleXMTPError(prepareError, 'Failed to send message');
+    }
+  };
+
+  /**
+   * Publish every prepared message of a conversation (also used to retry failed sends)
+   */
+  publishMessages = async (conversationId: string): Promise<void> => {
+    try {
+      const conversation = await this.findConversation(conversationId);
+      await conversation.publishMessages();
+      console.log('✅ Messages published for conversation:', conversationId);
+    } catch (publishError) {
+      console.error('❌ Failed to publish messages:', publishError);
+      throw handleXMTPError(publishError, 'Failed to send message');
+    }
+  };
+
+  /**
+   * Send a message to a specific conversation (prepare + publish)
+   */
+  sendMessage = async (conversationId: string, content: string): Promise<XMTPMessage> => {
+    console.log('📤 Sending message to conversation:', conversationId);
+
+    const preparedMessage = await this.prepareMessage(conversationId, content);
+    await this.publishMessages(conversationId);
+
+    console.log('✅ Message sent successfully');
+    return { ...preparedMessage, status: 'sent' };
+  };
+
+  /**
+   * Reply to a specific message of a conversation (prepare + publish)
+   */
+  sendReply = async (conversationId: string, referenceId: string, text: string): Promise<XMTPMessage> => {
+    console.log('📤 Sending reply to message:', referenceId);
+
+    const preparedMessage = await this.prepareMessage(conversationId, text, referenceId);
+    await this.publishMessages(conversationId);
+
+    console.log('✅ Reply sent successfully');
+    return { ...preparedMessage, status: 'sent' };
+  };
+
+  /**
+   * Add or remove an emoji reaction on a message
+   */
+  sendReaction = async (conversationId: string, messageId: string, emoji: string, action: XMTPReactionAction): Promise<void> => {
+    try {
+      const conversation = await this.findConversation(conversationId);
+      const reaction: Reaction = {
+        reference: messageId,
+        action,
+        content: emoji,
+        schema: 'unicode',
+      };
+
+      await conversation.send(reaction, ContentTypeReaction);
+      console.log(`✅ Reaction ${action}:`, emoji, messageId);
+    } catch (reactionError) {
+      console.error('❌ Failed to send reaction:', reactionError);
+      throw handleXMTPError(reactionError, 'Failed to send message');
+    }
+  };
+
+  /**
+   * Encrypt a file, upload it through the attachment storage and send it as a remote attachment
+   */
+  sendAttachment = async (conversationId: string, file: File, onProgress?: (progress: number) => void): Promise<XMTPMessage> => {
+    const attachmentStorage = this.attachmentStorage;
+    if (!attachmentStorage) {
+      throw new XMTPServiceError('INVALID_INPUT', 'Attachment storage is not configured', { retryable: false });
+    }
+
+    if (file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+      throw new XMTPServiceError('INVALID_INPUT', `Attachments are limited to ${MAX_ATTACHMENT_SIZE_BYTES / (1024 * 1024)} MB`);
+    }
+
+    try {
+      console.log('📎 Sending attachment:', file.name);
+      const conversation = await this.findConversation(conversationId);
+
+      const attachment: Attachment = {
+        filename: file.name,
+        mimeType: file.type || 'application/octet-stream',
+        data: new Uint8Array(await file.arrayBuffer()),
+      };
+      const encrypted = await RemoteAttachmentCodec.encodeEncrypted(attachment, new AttachmentCodec());
+      const url = await attachmentStorage.upload(encrypted.payload, { onProgress });
+
+      const remoteAttachment: RemoteAttachment = {
+        url,
+        contentDigest: encrypted.digest,
+        salt: encrypted.salt,
+        nonce: encrypted.nonce,
+        secret: encrypted.secret,
+        scheme: `${new URL(url).protocol}//`,
+        contentLength: encrypted.payload.byteLength,
+        filename: file.name,
+      };
+      const messageId = await conversation.send(remoteAttachment, ContentTypeRemoteAttachment);
+
+      console.log('✅ Attachment sent:', messageId);
+      const attachmentMessage: XMTPMessage = {
+        id: messageId,
+        content: file.name,
+        contentType: 'attachment',
+        attachment: {
+          filename: file.name,
+          mimeType: attachment.mimeType,
+          contentLength: remoteAttachment.contentLength,
+          remote: remoteAttachment,
+        },
+        senderAddress: this.accountAddress ?? this.state.inboxId ?? '',
+        sentAt: new Date(),
+        conversationId,
+        status: 'sent',
+      };
+      this.applyMessageToIndex(attachmentMessage);
+      return attachmentMessage;
+    } catch (attachmentError) {
+      console.error('❌ Failed to send attachment:', attachmentError);
+      throw handleXMTPError(attachmentError, 'Failed to send message');
+    }
+  };
+
+  /**
+   * Download and decrypt an attachment
+   */
+  loadAttachment = async (attachment: XMTPAttachment): Promise<XMTPAttachmentData> => {
+    if (attachment.data) {
+      return {
+        filename: attachment.filename,
+        mimeType: attachment.mimeType || 'application/octet-stream',
+        data: attachment.data,
+      };
+    }
+
+    if (!attachment.remote) {
+      throw new XMTPServiceError('INVALID_INPUT', 'Attachment has no content');
+    }
+
+    if (!this.attachmentStorage) {
+      throw new XMTPServiceError('INVALID_INPUT', 'Attachment storage is not configured', { retryable: false });
+    }
+
+    const client = this.state.client;
+    if (!client) {
+      throw new XMTPServiceError('CLIENT_NOT_READY', 'Client not ready');
+    }
+
+    const payload = await this.attachmentStorage.download(attachment.remote.url);
+
+    // Hand the payload to the codec so it checks the digest and decrypts it with the message key material
+    const payloadUrl = URL.createObjectURL(new Blob([payload.slice()]));
+    try {
+      const decoded = await RemoteAttachmentCodec.load<Attachment>({ ...attachment.remote, url: payloadUrl }, client);
+      return { filename: decoded.filename, mimeType: decoded.mimeType, data: decoded.data };
+    } finally {
+      URL.revokeObjectURL(payloadUrl);
+    }
+  };
+
+  // --- Read receipts ---
+
+  /**
+   * Send a read receipt if the latest message comes from someone else and hasn't been acknowledged yet.
+   * Does nothing when the user turned read receipts off.
+   */
+  sendReadReceipt = async (conversationId: string): Promise<void> => {
+    const client = this.state.client;
+    if (!this.state.readReceiptsEnabled || !client || this.pendingReadReceipts.has(conversationId)) {
+      return;
+    }
+
+    const pendingReadReceipts = this.pendingReadReceipts;
+    pendingReadReceipts.add(conversationId);
+    try {
+      const conversation = await this.findConversation(conversationId);
+
+      // Don't tell senders of message requests that their messages were read
+      if ((await conversation.consentState()) !== ConsentState.Allowed) {
+        return;
+      }
+
+      const [latestMessage] = await this.safeOperation(
+        async () => await conversation.messages({ limit: BigInt(1), direction: 1, contentTypes: DISPLAYED_CONTENT_TYPES }),
+        [],
+      );
+
+      if (!latestMessage || latestMessage.senderInboxId === client.inboxId) {
+        return;
+      }
+
+      // Already acknowledged by one of our receipts
+      const receipts = await this.safeOperation(
+        async () => await conversation.messages({ sentAfterNs: latestMessage.sentAtNs, contentTypes: [ContentType.ReadReceipt] }),
+        [],
+      );
+      if (receipts.some(receipt => receipt.senderInboxId === client.inboxId)) {
+        return;
+      }
+
+      await conversation.send({}, ContentTypeReadReceipt);
+      console.log('👁️ Read receipt sent for conversation:', conversationId);
+    } catch (receiptError) {
+      console.warn('Failed to send read receipt:', receiptError);
+    } finally {
+      pendingReadReceipts.delete(conversationId);
+    }
+  };
+
+  /**
+   * When another participant last read the conversation, from their latest read receipt
+   */
+  getLastReadAt = async (conversationId: string): Promise<Date | null> => {
+    const client = this.state.client;
+    if (!client || !this.state.isReady) {
+      return null;
+    }
+
+    try {
+      const conversation = await this.findConversation(conversationId);
+      const receipts = await this.safeOperation(
+        async () => await conversation.messages({ limit: BigInt(20), direction: 1, contentTypes: [ContentType.ReadReceipt] }),
+        [],
+      );
+      const peerReceipt = receipts.find(receipt => receipt.senderInboxId !== client.inboxId);
+
+      return peerReceipt ? new Date(Number(peerReceipt.sentAtNs) / 1_000_000) : null;
+    } catch (receiptError) {
+      console.warn('Failed to get read receipts:', receiptError);
+      return null;
+    }
+  };
+
+  /**
+   * Turn sending read receipts on or off for the connected account
+   */
+  setReadReceiptsEnabled = (enabled: boolean): void => {
+    this.setState({ readReceiptsEnabled: enabled });
+    if (this.accountAddress) {
+      this.writePreference(`${READ_RECEIPTS_STORAGE_KEY_PREFIX}${this.accountAddress}`, String(enabled));
+    }
+  };
+
+  // --- Contacts ---
+
+  /**
+   * Find the contact of an inbox ID or one of its linked addresses
+   */
+  getContact = (addressOrInboxId: string): XMTPContact | null => {
+    const key = normalizeAddress(addressOrInboxId);
+    return this.state.contacts.find(contact => contact.inboxId === key || contact.addresses.includes(key)) ?? null;
+  };
+
+  /**
+   * Create or update a contact; new addresses are linked to the existing ones
+   */
+  saveContact = async ({ inboxId: contactInboxId, addresses, nickname, notes }: XMTPContactInput): Promise<XMTPContact> => {
+    const accountAddress = this.accountAddress;
+    if (!accountAddress) {
+      throw new XMTPServiceError('WALLET_NOT_CONNECTED', 'Wallet not connected');
+    }
+    if (!nickname.trim()) {
+      throw new XMTPServiceError('INVALID_INPUT', 'Nickname is required');
+    }
+
+    const existing = this.state.contacts.find(contact => contact.inboxId === contactInboxId);
+    const now = Date.now();
+    const contact: XMTPContact = {
+      accountAddress,
+      inboxId: contactInboxId,
+      addresses: Array.from(new Set([...(existing?.addresses ?? []), ...addresses.map(normalizeAddress)])),
+      nickname: nickname.trim(),
+      notes: notes?.trim() || undefined,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    await storeContact(contact);
+    this.setState({
+      contacts: [...this.state.contacts.filter(stored => stored.inboxId !== contactInboxId), contact].sort((a, b) =>
+        a.nickname.localeCompare(b.nickname),
+      ),
+    });
+    console.log('📇 Contact saved:', contact.nickname);
+    return contact;
+  };
+
+  deleteContact = async (contactInboxId: string): Promise<void> => {
+    const accountAddress = this.accountAddress;
+    if (!accountAddress) {
+      throw new XMTPServiceError('WALLET_NOT_CONNECTED', 'Wallet not connected');
+    }
+
+    await removeStoredContact(accountAddress, contactInboxId);
+    this.setState({ contacts: this.state.contacts.filter(contact => contact.inboxId !== contactInboxId) });
+  };
+
+  // --- Offline outbox ---
+
+  private updateOutbox(update: (items: OutboxItem[]) => OutboxItem[]) {
+    this.setState({ outbox: update(this.state.outbox) });
+  }
+
+  /**
+   * Load the persisted outbox of the account once its client is ready
+   */
+  private async restoreOutbox(accountAddress: string): Promise<void> {
+    const generation = this.clientGeneration;
+    try {
+      const items = await this.outboxStorage.list(accountAddress, this.config.env);
+      if (generation !== this.clientGeneration) return;
+
+      this.updateOutbox(() => items);
+      if (items.length > 0) {
+        console.log(`📥 Restored ${items.length} queued messages`);
+        void this.flushOutbox();
+      }
+    } catch (outboxError) {
+      console.warn('Failed to load outbox:', outboxError);
+    }
+  }
+
+  /**
+   * Flush the outbox when the browser comes back online
+   */
+  private handleOnline = () => {
+    console.log('🌐 Back online, flushing outbox');
+    void this.flushOutbox();
+  };
+
+  /**
+   * Publish queued messages in order. Stops at the first failure and retries later with backoff.
+   */
+  flushOutbox = async (): Promise<void> => {
+    if (this.isFlushingOutbox || !this.state.client || !this.state.isReady || this.state.outbox.length === 0) {
+      return;
+    }
+
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      console.log('📴 Offline, outbox flush postponed');
+      return;
+    }
+
+    if (this.outboxRetryTimeout) {
+      clearTimeout(this.outboxRetryTimeout);
+      this.outboxRetryTimeout = null;
+    }
+
+    this.isFlushingOutbox = true;
+    const processedItemIds = new Set<string>();
+    let interrupted = false;
+    try {
+      for (const item of [...this.state.outbox]) {
+        processedItemIds.add(item.id);
+
+        if (item.failed) {
+          continue;
+        }
+
+        if (item.nextAttemptAt > Date.now()) {
+          this.outboxRetryTimeout = setTimeout(() => void this.flushOutbox(), item.nextAttemptAt - Date.now());
+          interrupted = true;
+          break;
+        }
+
+        let currentItem = item;
+        try {
+          // A previous attempt may have stored the message without recording its id
+          const storedMessageId =
+            !currentItem.preparedMessageId && currentItem.preparingSince ? await this.findPreparedMessageId(currentItem) : null;
+          if (storedMessageId) {
+            currentItem = { ...currentItem, preparedMessageId: storedMessageId };
+            await this.outboxStorage.save(currentItem);
+          } else if (!currentItem.preparedMessageId) {
+            currentItem = { ...currentItem, preparingSince: Date.now() };
+            await this.outboxStorage.save(currentItem);
+            let preparedMessage: XMTPMessage;
+            try {
+              preparedMessage = await this.prepareMessage(currentItem.conversationId, currentItem.content, currentItem.replyTo);
+            } catch (prepareError) {
+              // Nothing was stored: the item can be discarded again
+              currentItem = { ...currentItem, preparingSince: undefined };
+              throw prepareError;
+            }
+            currentItem = { ...currentItem, preparedMessageId: preparedMessage.id };
+            await this.outboxStorage.save(currentItem);
+          }
+
+          await this.publishMessages(currentItem.conversationId);
+          await this.outboxStorage.delete(currentItem.id);
+          this.updateOutbox(items => items.filter(queued => queued.id !== currentItem.id));
+          console.log('📤 Outbox message published:', currentItem.id);
+        } catch (flushError) {
+          const flushServiceError = toXMTPServiceError(flushError);
+          const isPermanentFailure = OUTBOX_PERMANENT_FAILURE_CODES.includes(flushServiceError.code);
+          const attempts = currentItem.attempts + 1;
+          const failedItem: OutboxItem = {
+            ...currentItem,
+            attempts,
+            nextAttemptAt: Date.now() + getOutboxRetryDelay(attempts),
+            lastError: flushServiceError.message,
+            failed: isPermanentFailure || undefined,
+          };
+
+          await this.outboxStorage.save(failedItem).catch(saveError => console.warn('Failed to persist outbox item:', saveError));
+          this.updateOutbox(items => items.map(queued => (queued.id === failedItem.id ? failedItem : queued)));
+
+          if (isPermanentFailure) {
+            console.warn('⚠️ Outbox message cannot be sent, skipping it:', currentItem.id, flushError);
+            continue;
+          }
+
+          console.warn(`⚠️ Outbox flush failed, retrying in ${failedItem.nextAttemptAt - Date.now()}ms:`, flushError);
+          this.outboxRetryTimeout = setTimeout(() => void this.flushOutbox(), failedItem.nextAttemptAt - Date.now());
+          // Keep messages in order: don't publish later items before this one
+          interrupted = true;
+          break;
+        }
+      }
+    } finally {
+      this.isFlushingOutbox = false;
+    }
+
+    // Messages queued while this flush was running
+    if (!interrupted && this.state.outbox.some(item => !processedItemIds.has(item.id))) {
+      void this.flushOutbox();
+    }
+  };
+
+  /**
+   * Find the message an interrupted flush stored for an outbox item: same content, sent by this inbox since the item started preparing
+   */
+  private async findPreparedMessageId(item: OutboxItem): Promise<string | null> {
+    const conversation = await this.findConversation(item.conversationId);
+    const messages = await this.safeOperation(
+      async () =>
+        await conversation.messages({
+          sentAfterNs: BigInt(item.preparingSince ?? 0) * BigInt(1_000_000),
+          contentTypes: [ContentType.Text, ContentType.Reply],
+        }),
+      [],
+    );
+
+    const storedMessage = messages.find(message => {
+      if (message.senderInboxId !== this.state.inboxId) return false;
+
+      if (item.replyTo) {
+        const reply = message.content as Reply | undefined;
+        return reply?.reference === item.replyTo && reply.content === item.content;
+      }
+      return message.content === item.content;
+    });
+
+    return storedMessage?.id ?? null;
+  }
+
+  /**
+   * Queue a message that could not be sent; it is published once connectivity returns.
+   * Pass the SDK message id if the message was already prepared, and `replyTo` for replies.
+   */
+  enqueueMessage = async (conversationId: string, content: string, preparedMessageId?: string, replyTo?: string): Promise<OutboxItem> => {
+    const accountAddress = this.accountAddress;
+    if (!accountAddress) {
+      throw new XMTPServiceError('WALLET_NOT_CONNECTED', 'Wallet not connected');
+    }
+
+    const now = Date.now();
+    const item: OutboxItem = {
+      id: `outbox-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      accountAddress,
+      env: this.config.env,
+      conversationId,
+      content: content.trim(),
+      preparedMessageId,
+      replyTo,
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    };
+
+    await this.outboxStorage.save(item);
+    this.updateOutbox(items => [...items, item]);
+    console.log('📥 Message queued in outbox:', item.id);
+
+    void this.flushOutbox();
+    return item;
+  };
+
+  /**
+   * Remove a queued message that was never handed to the SDK, or one that failed for good
+   */
+  discardQueuedMessage = async (itemId: string): Promise<void> => {
+    const item = this.state.outbox.find(queued => queued.id === itemId);
+    if (!item) return;
+
+    // An interrupted flush may have stored the message without recording its id
+    const isStored =
+      !!item.preparedMessageId || (!!item.preparingSince && (await this.findPreparedMessageId(item).catch(() => null)) !== null);
+    if (isStored && !item.failed) {
+      throw new XMTPServiceError('INVALID_INPUT', 'This message is already stored and will be published automatically.');
+    }
+
+    await this.outboxStorage.delete(itemId);
+    this.updateOutbox(items => items.filter(queued => queued.id !== itemId));
+  };
+
+  // --- Conversations ---
+
+  /**
+   * Open the DM with an address, creating it if there is none yet. The existing DM is looked up by inbox ID.
+   */
+  startConversation = async (peerAddress: string): Promise<string> => {
+    const client = this.readyClient();
+    if (!client) {
+      throw new XMTPServiceError('CLIENT_NOT_READY', 'Client not ready');
+    }
+
+    try {
+      console.log('🆕 Starting conversation with:', peerAddress);
+
+      const normalizedAddress = normalizeAddress(peerAddress);
+
+      // 🔁 Obtenir l'inboxId depuis l'adresse Ethereum
+      // Use client.findInboxIdByIdentifier and create an Identifier object
+      const inboxIdLocal = await client.findInboxIdByIdentifier({
+        identifier: normalizedAddress,
+        identifierKind: 'Ethereum' as IdentifierKind, // Use IdentifierKind for type safety;
+      });
+
+      // No inbox for the address: it has never used XMTP
+      if (!inboxIdLocal) {
+        throw new XMTPNotRegisteredError('This address is not registered with XMTP and cannot receive messages.');
+      }
+
+      // 🔍 Rechercher la conversation existante, en synchronisant la liste seulement si elle n'est pas en local
+      const findDm = () => this.safeOperation(async () => await client.conversations.getDmByInboxId(inboxIdLocal), undefined);
+      let existingDm = await findDm();
+      if (!existingDm) {
+        await this.safeOperation(async () => await client.conversations.sync(), undefined);
+        existingDm = await findDm();
+      }
+
+      if (existingDm) {
+        console.log('✅ Using existing conversation');
+        // Starting a conversation explicitly allows it, even a former request or blocked one
+        await this.safeOperation(async () => await existingDm.updateConsentState(ConsentState.Allowed), undefined);
+        this.registerConversationHandles([existingDm]);
+        await this.refreshConversation(existingDm.id);
+        return existingDm.id;
+      }
+
+      // ✉️ Créer une nouvelle conversation
+      const newConversation = await this.safeOperation(async () => await client.conversations.newDm(inboxIdLocal), null);
+
+      if (!newConversation) {
+        // Only a memory error makes safeOperation fall back; the client is being rebuilt
+        throw new XMTPWasmMemoryError();
+      }
+
+      console.log('✅ New conversation created:', newConversation.id);
+      await this.safeOperation(async () => await newConversation.updateConsentState(ConsentState.Allowed), undefined);
+
+      // 🔁 Ajouter la conversation à l'index
+      this.registerConversationHandles([newConversation]);
+      await this.refreshConversation(newConversation.id);
+
+      return newConversation.id;
+    } catch (convError) {
+      throw handleXMTPError(convError, 'Failed to start conversation');
+    }
+  };
+
+  /**
+   * Accept (allowed) or block (denied) a conversation, or move it back to requests (unknown)
+   */
+  updateConsentState = async (conversationId: string, consentState: XMTPConsentState): Promise<void> => {
+    try {
+      const conversation = await this.findConversation(conversationId);
+      const sdkConsentState =
+        consentState === 'allowed' ? ConsentState.Allowed : consentState === 'denied' ? ConsentState.Denied : ConsentState.Unknown;
+      await conversation.updateConsentState(sdkConsentState);
+      console.log(`✅ Conversation ${conversationId} consent set to ${consentState}`);
+
+      this.updateIndexedConversation(conversationId, conversationTemp => ({ ...conversationTemp, consentState }));
+    } catch (consentError) {
+      throw handleXMTPError(consentError, 'Failed to update consent');
+    }
+  };
+
+  // --- Groups ---
+
+  /**
+   * Find a group conversation by id
+   */
+  private async getGroup(conversationId: string): Promise<Group<ClientContentTypes>> {
+    const conversation = await this.findConversation(conversationId);
+
+    if (!isGroupHandle(conversation)) {
+      throw new XMTPServiceError('NOT_FOUND', 'Group not found. It may have been deleted or is not synchronized.');
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Resolve Ethereum addresses to identifiers, rejecting those not registered with XMTP
+   */
+  private async toRegisteredIdentifiers(addresses: string[]): Promise<Identifier[]> {
+    const client = this.state.client;
+    if (!client) {
+      throw new XMTPServiceError('CLIENT_NOT_READY', 'Client not ready');
+    }
+
+    const identifiers: Identifier[] = [...new Set(addresses.map(normalizeAddress))].map(addr => ({
+      identifier: addr,
+      identifierKind: 'Ethereum' as IdentifierKind,
+    }));
+
+    const canMessageResult = await client.canMessage(identifiers);
+    const unregistered = identifiers.filter(id => !canMessageResult.get(id.identifier)).map(id => id.identifier);
+
+    if (unregistered.length > 0) {
+      throw new XMTPNotRegisteredError(`These addresses are not registered with XMTP: ${unregistered.join(', ')}`);
+    }
+
+    return identifiers;
+  }
+
+  /**
+   * Create a new group conversation with the given members
+   */
+  createGroup = async (addresses: string[], options: XMTPGroupOptions = {}): Promise<string> => {
+    const client = this.readyClient();
+    if (!client) {
+      throw new XMTPServiceError('CLIENT_NOT_READY', 'Client not ready');
+    }
+
+    try {
+      console.log('👥 Creating group with:', addresses);
+
+      const identifiers = await this.toRegisteredIdentifiers(addresses);
+      const group = await client.conversations.newGroupWithIdentifiers(identifiers, {
+        name: options.name?.trim() || undefined,
+        description: options.description?.trim() || undefined,
+        imageUrlSquare: options.imageUrl?.trim() || undefined,
+      });
+
+      console.log('✅ Group created:', group.id);
+
+      this.registerConversationHandles([group]);
+      await this.refreshConversation(group.id);
+
+      return group.id;
+    } catch (groupError) {
+      throw handleXMTPError(groupError, 'Failed to create group');
+    }
+  };
+
+  /**
+   * Add members to a group by Ethereum address
+   */
+  addMembers = async (conversationId: string, addresses: string[]): Promise<void> => {
+    try {
+      const group = await this.getGroup(conversationId);
+      const identifiers = await this.toRegisteredIdentifiers(addresses);
+      await group.addMembersByIdentifiers(identifiers);
+      console.log('✅ Members added to group:', conversationId);
+      await this.refreshConversation(conversationId);
+    } catch (memberError) {
+      throw handleXMTPError(memberError, 'Failed to add members');
+    }
+  };
+
+  /**
+   * Remove members from a group by inbox ID
+   */
+  removeMembers = async (conversationId: string, memberInboxIds: string[]): Promise<void> => {
+    try {
+      const group = await this.getGroup(conversationId);
+      await group.removeMembers(memberInboxIds);
+      console.log('✅ Members removed from group:', conversationId);
+      await this.refreshConversation(conversationId);
+    } catch (memberError) {
+      throw handleXMTPError(memberError, 'Failed to remove members');
+    }
+  };
+
+  /**
+   * Rename a group
+   */
+  updateGroupName = async (conversationId: string, name: string): Promise<void> => {
+    try {
+      const group = await this.getGroup(conversationId);
+      await group.updateName(name.trim());
+      await this.refreshConversation(conversationId);
+    } catch (updateError) {
+      throw handleXMTPError(updateError, 'Failed to rename group');
+    }
+  };
+
+  /**
+   * Update a group description
+   */
+  updateGroupDescription = async (conversationId: string, description: string): Promise<void> => {
+    try {
+      const group = await this.getGroup(conversationId);
+      await group.updateDescription(description.trim());
+      await this.refreshConversation(conversationId);
+    } catch (updateError) {
+      throw handleXMTPError(updateError, 'Failed to update group description');
+    }
+  };
+
+  /**
+   * List the members of a group with their resolved addresses
+   */
+  listMembers = async (conversationId: string): Promise<XMTPGroupMember[]> => {
+    try {
+      const group = await this.getGroup(conversationId);
+      await this.safeOperation(async () => await group.sync(), undefined);
+      const members = await this.safeOperation(async () => await group.members(), []);
+
+      return members.map(member => {
+        const ethIdentity = member.accountIdentifiers.find((id: Identifier) => id.identifierKind === 'Ethereum');
+        return {
+          inboxId: member.inboxId,
+          address: ethIdentity?.identifier || member.inboxId,
+          permissionLevel:
+            member.permissionLevel === PermissionLevel.SuperAdmin
+              ? 'super_admin'
+              : member.permissionLevel === PermissionLevel.Admin
+                ? 'admin'
+                : 'member',
+          isCurrentUser: member.inboxId === this.state.inboxId,
+        };
+      });
+    } catch (listError) {
+      throw handleXMTPError(listError, 'Failed to list group members');
+    }
+  };
+
+  // --- Installations ---
+
+  /**
+   * Sign an identity update with the connected wallet and publish it.
+   * Goes through the signature text API, which also works for clients built from the local database without a signer.
+   */
+  private async applyIdentityUpdate(
+    client: XMTPClient,
+    signatureType: SignatureRequestType,
+    getSignatureText: () => Promise<string | undefined>,
+  ): Promise<void> {
+    const wallet = this.wallet;
+    if (!wallet) {
+      throw new XMTPServiceError('WALLET_NOT_CONNECTED', 'Wallet not connected');
+    }
+
+    await this.withSignatureRequest('revoke_installations', async () => {
+      const signatureText = await getSignatureText();
+      if (!signatureText) {
+        console.log('ℹ️ No identity update to sign');
+        return;
+      }
+
+      const signer = await this.createSigner(wallet);
+      await client.unsafe_addSignature(signatureType, signatureText, signer);
+      await client.unsafe_applySignatures();
+    });
+  }
+
+  /**
+   * List the installations of the account's inbox, the current one first and then the newest first
+   */
+  listInstallations = async (): Promise<XMTPInstallation[]> => {
+    const client = this.readyClient();
+    if (!client) {
+      throw new XMTPServiceError('CLIENT_NOT_READY', 'Client not ready');
+    }
+
+    try {
+      const inboxState = await client.preferences.inboxState(true);
+
+      return inboxState.installations
+        .map(installation => ({
+          id: installation.id,
+          createdAt:
+            installation.clientTimestampNs !== undefined ? new Date(Number(installation.clientTimestampNs) / 1_000_000) : null,
+          isCurrent: installation.id === client.installationId,
+        }))
+        .sort(
+          (a, b) =>
+            Number(b.isCurrent) - Number(a.isCurrent) || (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0),
+        );
+    } catch (listError) {
+      throw handleXMTPError(listError, 'Failed to list installations');
+    }
+  };
+
+  /**
+   * Revoke installations by id. The wallet is asked to sign the revocation.
+   */
+  revokeInstallations = async (installationIds: string[]): Promise<void> => {
+    const client = this.readyClient();
+    if (!client) {
+      throw new XMTPServiceError('CLIENT_NOT_READY', 'Client not ready');
+    }
+
+    if (client.installationId && installationIds.includes(client.installationId)) {
+      throw new XMTPServiceError('INVALID_INPUT', 'The installation in use cannot be revoked');
+    }
+
+    try {
+      const inboxState = await client.preferences.inboxState(true);
+      const installationBytes = inboxState.installations
+        .filter(installation => installationIds.includes(installation.id))
+        .map(installation => installation.bytes);
+
+      if (installationBytes.length === 0) {
+        return;
+      }
+
+      await this.applyIdentityUpdate(client, SignatureRequestType.RevokeInstallations, () =>
+        client.unsafe_revokeInstallationsSignatureText(installationBytes),
+      );
+      console.log('✅ Installations revoked:', installationIds);
+    } catch (revokeError) {
+      throw handleXMTPError(revokeError, 'Failed to revoke installations');
+    }
+  };
+
+  /**
+   * Revoke every installation but the current one. The wallet is asked to sign the revocation.
+   */
+  revokeAllOtherInstallations = async (): Promise<void> => {
+    const client = this.readyClient();
+    if (!client) {
+      throw new XMTPServiceError('CLIENT_NOT_READY', 'Client not ready');
+    }
+
+    try {
+      await this.applyIdentityUpdate(client, SignatureRequestType.RevokeInstallations, () =>
+        client.unsafe_revokeAllOtherInstallationsSignatureText(),
+      );
+      console.log('✅ All other installations revoked');
+    } catch (revokeError) {
+      throw handleXMTPError(revokeError, 'Failed to revoke installations');
+    }
+  };
+
+  // --- Messages ---
+
+  /**
+   * Get a page of messages for a specific conversation.
+   * Without a cursor the newest page is returned; pass `before` to page backwards.
+   */
+  getMessages = async (conversationId: string, query: XMTPMessageQuery = {}): Promise<XMTPMessagePage> => {
+    const emptyPage: XMTPMessagePage = { messages: [], hasMore: false, oldestCursor: null, newestCursor: null };
+
+    if (!this.readyClient()) {
+      return emptyPage;
+    }
+
+    const limit = query.limit ?? DEFAULT_MESSAGE_PAGE_SIZE;
+
+    try {
+      console.log('📥 Getting messages for conversation:', conversationId, query);
+
+      let conversation: XMTPConversationHandle;
+      try {
+        conversation = await this.findConversation(conversationId);
+      } catch (lookupError) {
+        console.warn('Conversation not found:', conversationId, lookupError);
+        return emptyPage;
+      }
+
+      // Ask for one extra message to know whether another page exists
+      const isForward = query.after !== undefined && query.before === undefined;
+      const messages = await this.safeOperation(
+        async () =>
+          await conversation.messages({
+            limit: BigInt(limit + 1),
+            direction: isForward ? 0 : 1,
+            sentBeforeNs: query.before !== undefined ? BigInt(query.before) : undefined,
+            sentAfterNs: query.after !== undefined ? BigInt(query.after) : undefined,
+            contentTypes: DISPLAYED_CONTENT_TYPES,
+          }),
+        [],
+      );
+
+      const hasMore = messages.length > limit;
+      const pageMessages = messages
+        .slice(0, limit)
+        .sort((a, b) => (a.sentAtNs < b.sentAtNs ? -1 : a.sentAtNs > b.sentAtNs ? 1 : 0));
+
+      const formattedMessages: XMTPMessage[] = await Promise.all(pageMessages.map(message => this.formatMessage(message)));
+
+      // Reactions are always sent after their target, so only those newer than the page can apply to it
+      if (pageMessages.length > 0) {
+        const reactions = await this.getReactionsSince(conversationId, conversation, pageMessages[0].sentAtNs, query.before === undefined);
+
+        const messagesById = new Map(formattedMessages.map(message => [message.id, message]));
+        for (const reactionMessage of reactions) {
+          const target = reactionMessage.reaction && messagesById.get(reactionMessage.reaction.reference);
+          if (!target || !reactionMessage.reaction) continue;
+
+          target.reactions = applyReaction(
+            target.reactions,
+            reactionMessage.reaction,
+            reactionMessage.senderAddress,
+            this.isOwnSender(reactionMessage.senderAddress),
+          );
+        }
+      }
+
+      console.log(`✅ Retrieved ${formattedMessages.length} messages (hasMore: ${hasMore})`);
+      return {
+        messages: formattedMessages,
+        hasMore,
+        oldestCursor: pageMessages.length > 0 ? pageMessages[0].sentAtNs.toString() : null,
+        newestCursor: pageMessages.length > 0 ? pageMessages[pageMessages.length - 1].sentAtNs.toString() : null,
+      };
+    } catch (msgError) {
+      console.error('Failed to get messages:', msgError);
+      return emptyPage;
+    }
+  };
+
+  /**
+   * Reactions of a conversation sent from `sinceNs` on. Only the range older than the cached reactions is fetched,
+   * so paging back through a thread fetches each reaction once; `refresh` (newest page) drops the cache.
+   */
+  private async getReactionsSince(
+    conversationId: string,
+    conversation: XMTPConversationHandle,
+    sinceNs: bigint,
+    refresh: boolean,
+  ): Promise<XMTPMessage[]> {
+    const cached = refresh ? undefined : this.reactionCache.get(conversationId);
+    if (cached && cached.sinceNs <= sinceNs) {
+      return cached.reactions;
+    }
+
+    const reactionMessages = await this.safeOperation(
+      async () =>
+        await conversation.messages({
+          direction: 0,
+          sentAfterNs: sinceNs - BigInt(1),
+          sentBeforeNs: cached?.sinceNs,
+          contentTypes: [ContentType.Reaction],
+        }),
+      [],
+    );
+
+    const reactions = [...(await Promise.all(reactionMessages.map(message => this.formatMessage(message)))), ...(cached?.reactions ?? [])];
+    this.reactionCache.set(conversationId, { sinceNs, reactions });
+    return reactions;
+  }
+
+  /**
+   * Get a single message by id, e.g. the original of a reply outside the loaded pages
+   */
+  getMessage = async (messageId: string): Promise<XMTPMessage | null> => {
+    const client = this.readyClient();
+    if (!client) {
+      return null;
+    }
+
+    try {
+      const message = await this.safeOperation(async () => await client.conversations.getMessageById(messageId), undefined);
+      return message ? await this.formatMessage(message) : null;
+    } catch (msgError) {
+      console.warn('Failed to get message:', messageId, msgError);
+      return null;
+    }
+  };
+
+  // --- Streams and polling ---
+
+  /**
+   * Stop message polling manually
+   */
+  stopMessagePolling = (): void => {
+    if (this.messagePollingInterval) {
+      clearInterval(this.messagePollingInterval);
+      this.messagePollingInterval = null;
+      if (this.state.messageTransport === 'polling') {
+        this.setState({ messageTransport: 'idle' });
+      }
+      console.log('🛑 Message polling stopped');
+    }
+  };
+
+  /**
+   * Start message polling manually (also used as the stream fallback)
+   */
+  startMessagePolling = (): void => {
+    if (this.messagePollingInterval || !this.state.client || !this.state.isReady) {
+      return;
+    }
+
+    // Only pick up messages newer than the moment polling took over
+    if (!this.lastMessageTimestamp) {
+      this.lastMessageTimestamp = Date.now();
+    }
+
+    this.setState({ messageTransport: 'polling' });
+    this.messagePollingInterval = setInterval(this.pollForNewMessages, this.config.messagePollingIntervalMs);
+    console.log('🚀 Message polling started');
+  };
+
+  /**
+   * Open the shared message stream of a client, unless it is already open
+   */
+  private openMessageStream(client: XMTPClient) {
+    if (this.stopMessageStream) {
+      return;
+    }
+
+    // Messages sent before the stream opened are loaded by getMessages
+    this.lastMessageTimestamp = Math.max(this.lastMessageTimestamp, Date.now());
+
+    this.stopMessageStream = createResilientStream<DecodedMessage<ClientContentTypes>>({
+      label: 'Message',
+      open: callback => client.conversations.streamAllMessages(callback, undefined, ACTIVE_CONSENT_STATES),
+      onValue: async message => {
+        console.log('📨 New message received via stream:', message.id);
+        await this.deliverNewMessage(message);
+      },
+      onTransportChange: transport => {
+        if (transport === 'polling') {
+          this.startMessagePolling();
+        } else {
+          this.stopMessagePolling();
+          this.setState({ messageTransport: 'stream' });
+        }
+      },
+    });
+  }
+
+  /**
+   * Stream all messages, falling back to polling while the stream is down.
+   * Every caller gets each message; the stream is shared and closed with the last returned cleanup function.
+   */
+  streamAllMessages = (onMessage: (message: XMTPMessage) => void): (() => void) => {
+    const client = this.readyClient();
+    if (!client) {
+      return () => {};
+    }
+
+    const unsubscribe = this.on('message', onMessage);
+    this.openMessageStream(client);
+
+    return () => {
+      unsubscribe();
+      if (this.eventListeners.message.size > 0) return;
+
+      this.stopMessageStream?.();
+      this.stopMessageStream = null;
+      this.stopMessagePolling();
+      this.setState({ messageTransport: 'idle' });
+    };
+  };
+
+  /**
+   * Conversation polling - fallback used when the conversation stream is unavailable.
+   * Only conversations missing from the index are formatted.
+   */
+  private pollForNewConversations = async (): Promise<void> => {
+    const client = this.readyClient();
+    if (!client) {
+      return;
+    }
+
+    await this.safeOperation(async () => await client.conversations.sync(), undefined);
+    const convos = await this.safeOperation(
+      async () => await client.conversations.list({ consentStates: ALL_CONSENT_STATES }),
+      [],
+    );
+
+    this.registerConversationHandles(convos);
+    const newConvos = convos.filter(convo => !this.conversationIndex.has(convo.id));
+    if (newConvos.length === 0) {
+      return;
+    }
+
+    const formattedConversations = await Promise.all(newConvos.map(convo => this.formatConversation(convo)));
+    console.log(`🆕 Found ${formattedConversations.length} new conversations via polling`);
+    this.upsertConversations(formattedConversations);
+    formattedConversations.forEach(conversation => this.emit('conversation', conversation));
+  };
+
+  private stopConversationPolling() {
+    if (this.conversationPollingInterval) {
+      clearInterval(this.conversationPollingInterval);
+      this.conversationPollingInterval = null;
+    }
+  }
+
+  /**
+   * Open the shared conversation stream of a client, unless it is already open
+   */
+  private openConversationStream(client: XMTPClient) {
+    if (this.stopConversationStream) {
+      return;
+    }
+
+    this.stopConversationStream = createResilientStream<XMTPConversationHandle>({
+      label: 'Conversation',
+      open: callback => client.conversations.stream(callback),
+      onValue: async conversation => {
+        this.registerConversationHandles([conversation]);
+        const formattedConversation = await this.formatConversation(conversation);
+        console.log('🆕 New conversation received via stream:', formattedConversation.id);
+        this.upsertConversations([formattedConversation]);
+        this.emit('conversation', formattedConversation);
+      },
+      onTransportChange: transport => {
+        if (transport === 'stream') {
+          this.stopConversationPolling();
+          return;
+        }
+
+        if (!this.conversationPollingInterval) {
+          this.conversationPollingInterval = setInterval(async () => {
+            try {
+              await this.pollForNewConversations();
+            } catch (err) {
+              console.warn('Error during conversation polling:', err);
+            }
+          }, this.config.conversationPollingIntervalMs);
+        }
+      },
+    });
+  }
+
+  /**
+   * Stream new conversations, falling back to polling while the stream is down.
+   * Shared like streamAllMessages; returns a cleanup function.
+   */
+  streamConversations = (onNewConversation: (conversation: XMTPConversation) => void): (() => void) => {
+    const client = this.readyClient();
+    if (!client) {
+      return () => {};
+    }
+
+    const unsubscribe = this.on('conversation', onNewConversation);
+    this.openConversationStream(client);
+
+    return () => {
+      unsubscribe();
+      if (this.eventListeners.conversation.size > 0) return;
+
+      this.stopConversationStream?.();
+      this.stopConversationStream = null;
+      this.stopConversationPolling();
+    };
+  };
+
+  /**
+   * Sync all conversations and messages
+   */
+  syncAll = async (): Promise<void> => {
+    const client = this.readyClient();
+    if (!client) {
+      return;
+    }
+
+    try {
+      console.log('🔄 Syncing all conversations...');
+      await this.safeOperation(async () => await client.conversations.syncAll(ACTIVE_CONSENT_STATES), undefined);
+      console.log('✅ Sync completed');
+
+      // A successful sync means the network is reachable again
+      void this.flushOutbox();
+    } catch (syncError) {
+      console.warn('Sync failed:', syncError);
+    }
+  };
+}